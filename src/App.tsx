@@ -9,8 +9,15 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import LeadForm from "./pages/LeadForm";
 import Leads from "./pages/Leads";
+import LeadDetail from "./pages/LeadDetail";
 import Analytics from "./pages/Analytics";
+import FollowUps from "./pages/FollowUps";
 import ImportExport from "./pages/ImportExport";
+import Settings from "./pages/Settings";
+import UserManagement from "./pages/UserManagement";
+import Trash from "./pages/Trash";
+import AuditLog from "./pages/AuditLog";
+import Areas from "./pages/Areas";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,8 +35,16 @@ const App = () => (
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/leads" element={<Leads />} />
             <Route path="/leads/new" element={<LeadForm />} />
+            <Route path="/leads/:id" element={<LeadDetail />} />
+            <Route path="/leads/:id/edit" element={<LeadForm />} />
+            <Route path="/follow-ups" element={<FollowUps />} />
             <Route path="/analytics" element={<Analytics />} />
             <Route path="/import-export" element={<ImportExport />} />
+            <Route path="/settings" element={<Settings />} />
+            <Route path="/admin/users" element={<UserManagement />} />
+            <Route path="/admin/trash" element={<Trash />} />
+            <Route path="/admin/audit-log" element={<AuditLog />} />
+            <Route path="/admin/areas" element={<Areas />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
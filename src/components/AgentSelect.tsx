@@ -0,0 +1,40 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tables } from "@/integrations/supabase/types";
+
+const UNASSIGNED = "unassigned";
+
+interface AgentSelectProps {
+  agents: Tables<'profiles'>[];
+  value: string | null | undefined;
+  onChange: (userId: string | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function AgentSelect({ agents, value, onChange, disabled, className }: AgentSelectProps) {
+  return (
+    <Select
+      value={value || UNASSIGNED}
+      onValueChange={(selected) => onChange(selected === UNASSIGNED ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select agent" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {agents.map((agent) => (
+          <SelectItem key={agent.user_id} value={agent.user_id}>
+            {agent.full_name || 'Unnamed user'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, Users, Plus, FileText, Settings, BarChart3 } from "lucide-react";
+import { Home, Users, Plus, FileText, Settings, BarChart3, ShieldCheck, CalendarClock, Trash2, ScrollText, MapPin } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
   Sidebar,
@@ -10,19 +10,29 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import { useProfile } from "@/hooks/useProfile";
 
 const items = [
   { title: "Dashboard", url: "/", icon: Home },
   { title: "All Leads", url: "/leads", icon: Users },
   { title: "Add Lead", url: "/leads/new", icon: Plus },
+  { title: "Follow-ups", url: "/follow-ups", icon: CalendarClock },
   { title: "Analytics", url: "/analytics", icon: BarChart3 },
   { title: "Import/Export", url: "/import-export", icon: FileText },
   { title: "Settings", url: "/settings", icon: Settings },
 ];
 
+const adminItems = [
+  { title: "User Management", url: "/admin/users", icon: ShieldCheck },
+  { title: "Areas", url: "/admin/areas", icon: MapPin },
+  { title: "Trash", url: "/admin/trash", icon: Trash2 },
+  { title: "Audit Log", url: "/admin/audit-log", icon: ScrollText },
+];
+
 export function AppSidebar() {
   const location = useLocation();
   const currentPath = location.pathname;
+  const { role } = useProfile();
 
   const isActive = (path: string) => {
     if (path === "/") return currentPath === "/";
@@ -60,6 +70,26 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {role === 'admin' && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Admin</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {adminItems.map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild>
+                      <NavLink to={item.url} className={getNavCls(isActive(item.url))}>
+                        <item.icon className="mr-3 h-4 w-4" />
+                        <span>{item.title}</span>
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
     </Sidebar>
   );
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, MapPin, X } from "lucide-react";
+import { Area, AreaKind, areaKindLabels, flattenAreaTree } from "@/lib/areas";
+
+interface AreaPickerProps {
+  areas: Area[];
+  selected: string[];
+  onChange: (names: string[]) => void;
+  disabled?: boolean;
+}
+
+// Multi-select over the areas catalog. Names that aren't in the catalog (older free-text entries) still
+// show up so they can be removed, but new ones can't be typed in.
+export function AreaPicker({ areas, selected, onChange, disabled }: AreaPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(area => area !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(name => {
+        const catalogued = areas.some(area => area.name === name);
+
+        return (
+          <Badge
+            key={name}
+            variant={catalogued ? "secondary" : "outline"}
+            className="flex items-center gap-1"
+            title={catalogued ? undefined : "Not in the areas catalog"}
+          >
+            {name}
+            {!disabled && <X className="h-3 w-3 cursor-pointer" onClick={() => toggle(name)} />}
+          </Badge>
+        );
+      })}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled}>
+            <MapPin className="mr-2 h-4 w-4" />
+            Add area
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-0">
+          <Command>
+            <CommandInput placeholder="Search areas..." />
+            <CommandList>
+              <CommandEmpty>No matching areas. Ask an admin to add it to the catalog.</CommandEmpty>
+              <CommandGroup>
+                {flattenAreaTree(areas).map(({ area, depth }) => (
+                  <CommandItem
+                    key={area.id}
+                    value={area.name}
+                    keywords={[...area.aliases, ...areas.filter(parent => parent.id === area.parent_id).map(parent => parent.name)]}
+                    onSelect={() => toggle(area.name)}
+                  >
+                    <Check className={`mr-2 h-4 w-4 shrink-0 ${selected.includes(area.name) ? 'opacity-100' : 'opacity-0'}`} />
+                    <span style={{ paddingLeft: `${depth * 0.75}rem` }} className="flex-1 truncate">{area.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{areaKindLabels[area.kind as AreaKind]}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
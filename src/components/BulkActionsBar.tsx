@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, MapPin, Tag as TagIcon, Trash2, X } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tables } from "@/integrations/supabase/types";
+import { BulkChange, bulkSelectionLimit } from "@/lib/bulkActions";
+import { leadStatuses, LeadStatus } from "@/lib/leads";
+import { getTagColorClass, Tag } from "@/lib/tags";
+import { Area } from "@/lib/areas";
+import { AreaPicker } from "@/components/AreaPicker";
+
+const UNASSIGNED = "unassigned";
+
+interface BulkActionsBarProps {
+  selectedCount: number;
+  matchingCount: number;
+  allMatchingSelected: boolean;
+  canSelectAllMatching: boolean;
+  agents: Tables<'profiles'>[];
+  tags: Tag[];
+  areas: Area[];
+  busy: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onChange: (change: BulkChange) => void;
+  onExport: () => void;
+  // Only passed for admins, who are the only ones allowed to delete
+  onDelete?: () => void;
+}
+
+export function BulkActionsBar({
+  selectedCount,
+  matchingCount,
+  allMatchingSelected,
+  canSelectAllMatching,
+  agents,
+  tags,
+  areas,
+  busy,
+  onSelectAllMatching,
+  onClear,
+  onChange,
+  onExport,
+  onDelete,
+}: BulkActionsBarProps) {
+  const [areaNames, setAreaNames] = useState<string[]>([]);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const matchingSelectable = Math.min(matchingCount, bulkSelectionLimit);
+
+  const changeAreas = (mode: 'add' | 'remove') => {
+    if (areaNames.length === 0) return;
+
+    onChange({ kind: 'areas', add: mode === 'add' ? areaNames : [], remove: mode === 'remove' ? areaNames : [] });
+    setAreaNames([]);
+  };
+
+  const changeTags = (mode: 'add' | 'remove') => {
+    if (tagIds.length === 0) return;
+
+    onChange({ kind: 'tags', add: mode === 'add' ? tagIds : [], remove: mode === 'remove' ? tagIds : [] });
+    setTagIds([]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 p-3">
+      <span className="text-sm font-medium">
+        {allMatchingSelected ? `All ${matchingSelectable} matching leads selected` : `${selectedCount} selected`}
+      </span>
+
+      {canSelectAllMatching && !allMatchingSelected && matchingCount > selectedCount && (
+        <Button variant="link" size="sm" className="px-1" onClick={onSelectAllMatching}>
+          Select all {matchingSelectable} matching
+        </Button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <Select value="" onValueChange={(status: LeadStatus) => onChange({ kind: 'status', status })} disabled={busy}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {leadStatuses.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => onChange({ kind: 'priority', priority: Number(value) })} disabled={busy}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {[5, 4, 3, 2, 1].map(priority => (
+              <SelectItem key={priority} value={priority.toString()}>Priority {priority}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => onChange({ kind: 'assign', assignedTo: value === UNASSIGNED ? null : value })}
+          disabled={busy}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Assign to" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {agents.map(agent => (
+              <SelectItem key={agent.user_id} value={agent.user_id}>
+                {agent.full_name || 'Unnamed user'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" disabled={busy}>
+              <MapPin className="mr-2 h-4 w-4" />
+              Areas
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="space-y-3">
+            <div className="space-y-2">
+              <Label>Preferred areas</Label>
+              <AreaPicker areas={areas} selected={areaNames} onChange={setAreaNames} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => changeAreas('remove')}>
+                Remove
+              </Button>
+              <Button size="sm" onClick={() => changeAreas('add')}>
+                Add
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" disabled={busy || tags.length === 0}>
+              <TagIcon className="mr-2 h-4 w-4" />
+              Tags
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-56 space-y-3">
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {tags.map(tag => (
+                <div key={tag.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`bulk-tag-${tag.id}`}
+                    checked={tagIds.includes(tag.id)}
+                    onCheckedChange={(checked) => setTagIds(prev => checked ? [...prev, tag.id] : prev.filter(id => id !== tag.id))}
+                  />
+                  <span className={`h-2 w-2 rounded-full border ${getTagColorClass(tag.color)}`} />
+                  <Label htmlFor={`bulk-tag-${tag.id}`} className="font-normal">{tag.name}</Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => changeTags('remove')}>
+                Remove
+              </Button>
+              <Button size="sm" onClick={() => changeTags('add')}>
+                Add
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="outline" size="sm" onClick={onExport} disabled={busy}>
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+
+        {onDelete && (
+          <Button variant="destructive" size="sm" onClick={onDelete} disabled={busy}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={busy}>
+          <X className="mr-2 h-4 w-4" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { addDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { completeFollowUp } from "@/lib/followUps";
+
+interface FollowUpLead {
+  id: string;
+  first_name: string;
+  last_name: string;
+  next_follow_up: string | null;
+}
+
+interface CompleteFollowUpDialogProps {
+  lead: FollowUpLead | null;
+  onOpenChange: (open: boolean) => void;
+  onCompleted: () => void;
+}
+
+export function CompleteFollowUpDialog({ lead, onOpenChange, onCompleted }: CompleteFollowUpDialogProps) {
+  const [nextFollowUp, setNextFollowUp] = useState<Date | undefined>(addDays(new Date(), 7));
+  const [noFurtherFollowUp, setNoFurtherFollowUp] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setNextFollowUp(addDays(new Date(), 7));
+    setNoFurtherFollowUp(false);
+    setNotes("");
+  };
+
+  const handleSubmit = async () => {
+    if (!user || !lead) return;
+
+    setSaving(true);
+    try {
+      await completeFollowUp({
+        leadId: lead.id,
+        actorId: user.id,
+        completedFollowUp: lead.next_follow_up,
+        nextFollowUp: noFurtherFollowUp ? null : nextFollowUp ?? null,
+        notes,
+      });
+
+      toast({
+        title: "Success!",
+        description: `Follow-up with ${lead.first_name} ${lead.last_name} marked as done.`,
+      });
+
+      reset();
+      onOpenChange(false);
+      onCompleted();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to complete follow-up",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(lead)} onOpenChange={(open) => { if (!open) reset(); onOpenChange(open); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Complete Follow-up</DialogTitle>
+          <DialogDescription>
+            {lead && `Record that you contacted ${lead.first_name} ${lead.last_name} and schedule the next follow-up.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Next follow-up</Label>
+            <Calendar
+              mode="single"
+              selected={nextFollowUp}
+              onSelect={setNextFollowUp}
+              disabled={noFurtherFollowUp ? () => true : { before: new Date() }}
+              className="rounded-md border w-fit"
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="no-further-follow-up"
+                checked={noFurtherFollowUp}
+                onCheckedChange={(checked) => setNoFurtherFollowUp(checked === true)}
+              />
+              <Label htmlFor="no-further-follow-up" className="font-normal">No further follow-up needed</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-notes">Notes</Label>
+            <Textarea
+              id="follow-up-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="What was discussed?"
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || (!noFurtherFollowUp && !nextFollowUp)}>
+            {saving ? "Saving..." : "Mark as Done"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CustomFieldDefinition, CustomFieldType } from "@/lib/customFields";
+
+const NOT_SET = "__not_set";
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+// Yes/no fields use a select rather than a checkbox so "not answered" stays distinguishable from "no"
+export function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  const type = field.field_type as CustomFieldType;
+
+  if (type === 'select' || type === 'boolean') {
+    const options = type === 'boolean'
+      ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+      : field.options.map(option => ({ value: option, label: option }));
+    const current = value === undefined || value === null || value === '' ? (field.required ? '' : NOT_SET) : String(value);
+
+    return (
+      <Select
+        value={current}
+        onValueChange={(selected) => {
+          if (selected === NOT_SET) return onChange(undefined);
+          onChange(type === 'boolean' ? selected === 'true' : selected);
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {!field.required && <SelectItem value={NOT_SET}>Not set</SelectItem>}
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={type === 'number' ? 'number' : type === 'date' ? 'date' : 'text'}
+      value={value === undefined || value === null ? '' : String(value)}
+      onChange={(e) => {
+        if (type === 'number') return onChange(e.target.value ? Number(e.target.value) : undefined);
+        onChange(e.target.value || undefined);
+      }}
+    />
+  );
+}
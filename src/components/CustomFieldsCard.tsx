@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Pencil, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useToast } from "@/hooks/use-toast";
+import { CustomField, CustomFieldType, customFieldTypeLabels, toCustomFieldKey } from "@/lib/customFields";
+import { customFieldSchema, customFieldTypes } from "@/lib/validations";
+
+interface FieldDraft {
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string;
+  required: boolean;
+}
+
+const emptyDraft: FieldDraft = { key: '', label: '', field_type: 'text', options: '', required: false };
+
+// Admin-only. A field's key and type are fixed once created because values are already stored under them.
+export function CustomFieldsCard() {
+  const { customFields, refresh } = useCustomFields();
+  const [draft, setDraft] = useState<FieldDraft>(emptyDraft);
+  const [editing, setEditing] = useState<CustomField | null>(null);
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: "Success!", description: success });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update custom fields",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetDraft = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+    setKeyEdited(false);
+  };
+
+  const startEditing = (field: CustomField) => {
+    setEditing(field);
+    setKeyEdited(true);
+    setDraft({
+      key: field.key,
+      label: field.label,
+      field_type: field.field_type as CustomFieldType,
+      options: field.options.join(', '),
+      required: field.required,
+    });
+  };
+
+  const save = () => run(async () => {
+    const result = customFieldSchema.safeParse({
+      ...draft,
+      options: draft.field_type === 'select'
+        ? draft.options.split(',').map(option => option.trim()).filter(Boolean)
+        : [],
+    });
+    if (!result.success) throw new Error(result.error.issues[0].message);
+
+    const { key, field_type, label, options, required } = result.data;
+    const { error } = editing
+      ? await supabase.from('custom_fields').update({ label, options, required }).eq('id', editing.id)
+      : await supabase.from('custom_fields').insert({
+          key,
+          field_type,
+          label,
+          options,
+          required,
+          display_order: Math.max(-1, ...customFields.map(field => field.display_order)) + 1,
+        });
+
+    if (error) throw error;
+
+    resetDraft();
+    await refresh();
+  }, `Field "${draft.label.trim()}" ${editing ? 'updated' : 'created'}.`);
+
+  // Orders are rewritten from list positions, which also tidies up any gaps left by deletions
+  const move = (index: number, offset: -1 | 1) => run(async () => {
+    const reordered = [...customFields];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+
+    for (const [position, field] of reordered.entries()) {
+      if (field.display_order === position) continue;
+
+      const { error } = await supabase.from('custom_fields').update({ display_order: position }).eq('id', field.id);
+      if (error) throw error;
+    }
+
+    await refresh();
+  }, "Field order updated.");
+
+  const remove = (field: CustomField) => {
+    if (!window.confirm(`Delete the "${field.label}" field? Values already saved on leads are kept but no longer shown.`)) return;
+
+    run(async () => {
+      const { error } = await supabase.from('custom_fields').delete().eq('id', field.id);
+
+      if (error) throw error;
+
+      if (editing?.id === field.id) resetDraft();
+      await refresh();
+    }, `Field "${field.label}" deleted.`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Fields</CardTitle>
+        <CardDescription>Extra details your team tracks on every buyer. They appear on the lead form and profile, in filters and in CSV files.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {customFields.map((field, index) => (
+          <div key={field.id} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{field.label}</span>
+                <Badge variant="secondary">{customFieldTypeLabels[field.field_type as CustomFieldType]}</Badge>
+                {field.required && <Badge variant="outline">Required</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                <code>{field.key}</code>
+                {field.options.length > 0 && ` · ${field.options.join(', ')}`}
+              </p>
+            </div>
+            <Button type="button" variant="ghost" size="icon" onClick={() => move(index, -1)} disabled={busy || index === 0}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => move(index, 1)}
+              disabled={busy || index === customFields.length - 1}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" onClick={() => startEditing(field)} disabled={busy}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => remove(field)}
+              disabled={busy}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-label">Label</Label>
+              <Input
+                id="custom-field-label"
+                value={draft.label}
+                placeholder="School District"
+                onChange={(e) => setDraft({
+                  ...draft,
+                  label: e.target.value,
+                  key: keyEdited ? draft.key : toCustomFieldKey(e.target.value),
+                })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-key">Key</Label>
+              <Input
+                id="custom-field-key"
+                value={draft.key}
+                placeholder="school_district"
+                disabled={Boolean(editing)}
+                onChange={(e) => {
+                  setKeyEdited(true);
+                  setDraft({ ...draft, key: e.target.value });
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={draft.field_type}
+                onValueChange={(field_type: CustomFieldType) => setDraft({ ...draft, field_type })}
+                disabled={Boolean(editing)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {customFieldTypes.map(type => (
+                    <SelectItem key={type} value={type}>{customFieldTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {draft.field_type === 'select' && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-options">Options</Label>
+              <Input
+                id="custom-field-options"
+                value={draft.options}
+                placeholder="Dogs, Cats, None"
+                onChange={(e) => setDraft({ ...draft, options: e.target.value })}
+              />
+              <p className="text-sm text-muted-foreground">Separate options with commas</p>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="custom-field-required"
+              checked={draft.required}
+              onCheckedChange={(checked) => setDraft({ ...draft, required: checked === true })}
+            />
+            <Label htmlFor="custom-field-required" className="font-normal">Required on every lead</Label>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetDraft} disabled={busy}>
+                Cancel
+              </Button>
+            )}
+            <Button type="button" onClick={save} disabled={busy || !draft.label.trim()}>
+              {editing ? "Save Field" : (
+                <>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Field
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,28 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { DuplicateMatch, isLikelyDuplicate } from "@/lib/duplicates";
+
+interface DuplicateMatchSummaryProps {
+  match: DuplicateMatch;
+}
+
+// Existing lead a new one may duplicate. Opens in a new tab so a half-filled form or import isn't lost.
+export function DuplicateMatchSummary({ match }: DuplicateMatchSummaryProps) {
+  return (
+    <span className="inline-flex flex-wrap items-center gap-x-2 gap-y-1">
+      <Link
+        to={`/leads/${match.lead.id}`}
+        target="_blank"
+        rel="noreferrer"
+        className="font-medium hover:underline"
+      >
+        {match.lead.first_name} {match.lead.last_name}
+      </Link>
+      <span className="text-muted-foreground">{match.lead.email}</span>
+      <Badge variant={isLikelyDuplicate(match) ? "destructive" : "outline"}>
+        {isLikelyDuplicate(match) ? "Likely duplicate" : "Possible duplicate"}
+      </Badge>
+      <span className="text-xs text-muted-foreground">{match.reasons.join(', ')}</span>
+    </span>
+  );
+}
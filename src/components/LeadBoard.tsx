@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { formatBudget, getPriorityColor, getStatusColor, leadStatuses, LeadStatus } from "@/lib/leads";
+
+interface BoardLead {
+  id: string;
+  first_name: string;
+  last_name: string;
+  status: string;
+  priority: number;
+  budget_min: number;
+  budget_max: number;
+}
+
+interface LeadBoardProps {
+  leads: BoardLead[];
+  onStatusChange: (lead: BoardLead, status: LeadStatus) => void;
+  disabled?: boolean;
+}
+
+export function LeadBoard({ leads, onStatusChange, disabled }: LeadBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null);
+  const navigate = useNavigate();
+
+  const handleDrop = (event: React.DragEvent, status: LeadStatus) => {
+    event.preventDefault();
+    const lead = leads.find(l => l.id === event.dataTransfer.getData('text/plain'));
+    setDraggingId(null);
+    setDropTarget(null);
+
+    if (lead && lead.status !== status) {
+      onStatusChange(lead, status);
+    }
+  };
+
+  return (
+    <div className="grid gap-4 grid-cols-1 md:grid-cols-3 xl:grid-cols-5">
+      {leadStatuses.map(({ value, label }) => {
+        const columnLeads = leads.filter(lead => lead.status === value);
+
+        return (
+          <div
+            key={value}
+            onDragOver={(e) => {
+              if (disabled) return;
+              e.preventDefault();
+              setDropTarget(value);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, value)}
+            className={cn(
+              "rounded-lg border bg-muted/40 p-3 space-y-3 min-h-[300px] transition-colors",
+              dropTarget === value && "border-primary bg-primary/5"
+            )}
+          >
+            <div className="flex items-center justify-between">
+              <span className={`text-sm font-semibold text-${getStatusColor(value)}-700`}>{label}</span>
+              <Badge variant="secondary">{columnLeads.length}</Badge>
+            </div>
+
+            {columnLeads.map((lead) => (
+              <Card
+                key={lead.id}
+                draggable={!disabled}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData('text/plain', lead.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDraggingId(lead.id);
+                }}
+                onDragEnd={() => setDraggingId(null)}
+                onClick={() => navigate(`/leads/${lead.id}`)}
+                className={cn(
+                  "cursor-grab active:cursor-grabbing",
+                  draggingId === lead.id && "opacity-50"
+                )}
+              >
+                <CardContent className="p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium text-sm">{lead.first_name} {lead.last_name}</p>
+                    <Badge variant={getPriorityColor(lead.priority)}>{lead.priority}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBudget(lead.budget_min, lead.budget_max)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+
+            {columnLeads.length === 0 && (
+              <p className="text-xs text-center text-muted-foreground py-6">Drop leads here</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
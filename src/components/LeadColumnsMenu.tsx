@@ -0,0 +1,81 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronDown, ChevronUp, Settings2 } from "lucide-react";
+import { LeadColumnKey, leadColumnConfig, moveColumn } from "@/lib/leadColumns";
+import { defaultLeadColumns, leadColumnKeys } from "@/lib/validations";
+
+interface LeadColumnsMenuProps {
+  columns: LeadColumnKey[];
+  onChange: (columns: LeadColumnKey[]) => void;
+}
+
+export function LeadColumnsMenu({ columns, onChange }: LeadColumnsMenuProps) {
+  const hiddenColumns = leadColumnKeys.filter(key => !columns.includes(key));
+
+  const toggleColumn = (key: LeadColumnKey, visible: boolean) => {
+    if (visible) {
+      onChange([...columns, key]);
+    } else if (columns.length > 1) {
+      onChange(columns.filter(column => column !== key));
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings2 className="mr-2 h-4 w-4" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-1">
+        {columns.map((key, index) => (
+          <div key={key} className="flex items-center gap-2">
+            <Checkbox
+              id={`column-${key}`}
+              checked
+              disabled={columns.length === 1}
+              onCheckedChange={() => toggleColumn(key, false)}
+            />
+            <Label htmlFor={`column-${key}`} className="flex-1 font-normal">{leadColumnConfig[key].label}</Label>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={index === 0}
+              onClick={() => onChange(moveColumn(columns, key, -1))}
+            >
+              <ChevronUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              disabled={index === columns.length - 1}
+              onClick={() => onChange(moveColumn(columns, key, 1))}
+            >
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+
+        {hiddenColumns.map(key => (
+          <div key={key} className="flex items-center gap-2 h-6">
+            <Checkbox
+              id={`column-${key}`}
+              checked={false}
+              onCheckedChange={() => toggleColumn(key, true)}
+            />
+            <Label htmlFor={`column-${key}`} className="font-normal text-muted-foreground">{leadColumnConfig[key].label}</Label>
+          </div>
+        ))}
+
+        <Button variant="ghost" size="sm" className="w-full mt-2" onClick={() => onChange(defaultLeadColumns)}>
+          Reset to default
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
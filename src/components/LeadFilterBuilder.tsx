@@ -0,0 +1,389 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, SlidersHorizontal, X } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  countActiveConditions,
+  customFieldFilterKinds,
+  emptyAdvancedFilter,
+  isConditionActive,
+  isKeyedFilterField,
+  KeyedLeadFilterField,
+  LeadFilterField,
+  leadFilterFieldConfig,
+} from "@/lib/leadFilters";
+import { Tag } from "@/lib/tags";
+import { CustomField, CustomFieldType } from "@/lib/customFields";
+import { Area, flattenAreaTree } from "@/lib/areas";
+import { allPropertyAttributes, getPropertyAttribute, propertyTypeLabels } from "@/lib/propertyTypes";
+import { dataQualityFlagLabels } from "@/lib/emailQuality";
+import { AdvancedLeadFilter, dataQualityFlags, LeadFilterCondition, leadFilterFields, propertyTypes } from "@/lib/validations";
+
+interface LeadFilterBuilderProps {
+  filter: AdvancedLeadFilter;
+  members: Tables<'profiles'>[];
+  tags: Tag[];
+  customFields: CustomField[];
+  areas: Area[];
+  onApply: (filter: AdvancedLeadFilter) => void;
+}
+
+const newCondition = (): LeadFilterCondition => ({ field: 'budget' });
+
+const toNumber = (value: string) => value === '' ? undefined : Number(value);
+
+// Custom fields and property attributes each share one filter field, so the field picker tells them apart by key
+const keyedPrefixes: Record<KeyedLeadFilterField, string> = {
+  custom: 'custom:',
+  property_detail: 'detail:',
+};
+
+const getFieldValue = (condition: LeadFilterCondition) =>
+  isKeyedFilterField(condition.field) ? `${keyedPrefixes[condition.field]}${condition.key}` : condition.field;
+
+const parseFieldValue = (value: string): LeadFilterCondition => {
+  const [field, prefix] = Object.entries(keyedPrefixes).find(([, prefix]) => value.startsWith(prefix)) || [];
+  return field && prefix
+    ? { field: field as KeyedLeadFilterField, key: value.slice(prefix.length) }
+    : { field: value as LeadFilterField };
+};
+
+// Keeps the raw text while typing so a trailing comma isn't swallowed by the split
+function ListInput({ values, onChange, placeholder }: {
+  values: string[] | undefined;
+  onChange: (values: string[]) => void;
+  placeholder: string;
+}) {
+  const [text, setText] = useState((values || []).join(', '));
+
+  return (
+    <Input
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(',').map(value => value.trim()).filter(Boolean));
+      }}
+    />
+  );
+}
+
+export function LeadFilterBuilder({ filter, members, tags, customFields, areas, onApply }: LeadFilterBuilderProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AdvancedLeadFilter>(filter);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(filter.groups.length > 0 ? filter : { match: 'all', groups: [{ match: 'all', conditions: [newCondition()] }] });
+    }
+  }, [open, filter]);
+
+  const updateGroup = (groupIndex: number, update: Partial<AdvancedLeadFilter['groups'][number]>) => {
+    setDraft(prev => ({
+      ...prev,
+      groups: prev.groups.map((group, i) => i === groupIndex ? { ...group, ...update } : group),
+    }));
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: LeadFilterCondition) => {
+    updateGroup(groupIndex, {
+      conditions: draft.groups[groupIndex].conditions.map((c, j) => j === conditionIndex ? condition : c),
+    });
+  };
+
+  const deleteCondition = (groupIndex: number, conditionIndex: number) => {
+    const conditions = draft.groups[groupIndex].conditions.filter((_, j) => j !== conditionIndex);
+    if (conditions.length > 0) {
+      updateGroup(groupIndex, { conditions });
+    } else {
+      setDraft(prev => ({ ...prev, groups: prev.groups.filter((_, i) => i !== groupIndex) }));
+    }
+  };
+
+  const apply = () => {
+    // Drop half-filled rows so the chips only ever show filters that actually run
+    onApply({
+      ...draft,
+      groups: draft.groups
+        .map(group => ({ ...group, conditions: group.conditions.filter(isConditionActive) }))
+        .filter(group => group.conditions.length > 0),
+    });
+    setOpen(false);
+  };
+
+  const renderValueEditor = (condition: LeadFilterCondition, onChange: (condition: LeadFilterCondition) => void) => {
+    const definition = condition.field === 'custom' ? customFields.find(field => field.key === condition.key)
+      : condition.field === 'property_detail' ? getPropertyAttribute(condition.key || '')
+      : undefined;
+
+    if (isKeyedFilterField(condition.field) && !definition) {
+      return <p className="text-sm text-muted-foreground py-2">This field no longer exists</p>;
+    }
+
+    const kind = definition
+      ? customFieldFilterKinds[definition.field_type as CustomFieldType]
+      : leadFilterFieldConfig[condition.field as Exclude<LeadFilterField, KeyedLeadFilterField>].kind;
+
+    switch (kind) {
+      case 'range':
+        return (
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder="Min"
+              value={condition.min ?? ''}
+              onChange={(e) => onChange({ ...condition, min: toNumber(e.target.value) })}
+            />
+            <Input
+              type="number"
+              placeholder="Max"
+              value={condition.max ?? ''}
+              onChange={(e) => onChange({ ...condition, max: toNumber(e.target.value) })}
+            />
+          </div>
+        );
+      case 'minimum':
+        return (
+          <Input
+            type="number"
+            placeholder="At least"
+            value={condition.min ?? ''}
+            onChange={(e) => onChange({ ...condition, min: toNumber(e.target.value) })}
+          />
+        );
+      case 'dates':
+        return (
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={condition.from ?? ''}
+              onChange={(e) => onChange({ ...condition, from: e.target.value || undefined })}
+            />
+            <Input
+              type="date"
+              value={condition.to ?? ''}
+              onChange={(e) => onChange({ ...condition, to: e.target.value || undefined })}
+            />
+          </div>
+        );
+      case 'values':
+        if (!definition || definition.field_type !== 'text') {
+          let options: Array<{ value: string; label: string; depth?: number }>;
+          if (condition.field === 'property_type') {
+            // Free-text values saved before the list existed stay listed so they can still be unticked
+            const legacy = (condition.values || []).filter(value => !propertyTypes.includes(value as typeof propertyTypes[number]));
+            options = [
+              ...propertyTypes.map(type => ({ value: type, label: propertyTypeLabels[type] })),
+              ...legacy.map(value => ({ value, label: value })),
+            ];
+          } else if (condition.field === 'preferred_areas') {
+            // Names from before the catalog existed stay listed so saved filters can still be unticked
+            const legacy = (condition.values || []).filter(value => !areas.some(area => area.name === value));
+            options = [
+              ...flattenAreaTree(areas).map(({ area, depth }) => ({ value: area.name, label: area.name, depth })),
+              ...legacy.map(value => ({ value, label: value })),
+            ];
+          } else if (definition) {
+            options = definition.field_type === 'boolean'
+              ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+              : definition.options.map(option => ({ value: option, label: option }));
+          } else if (condition.field === 'tags') {
+            options = tags.map(tag => ({ value: tag.id, label: tag.name }));
+          } else if (condition.field === 'data_quality') {
+            options = dataQualityFlags.map(flag => ({ value: flag, label: dataQualityFlagLabels[flag] }));
+          } else {
+            options = [
+              { value: 'me', label: 'Me' },
+              { value: 'unassigned', label: 'Unassigned' },
+              ...members.map(member => ({ value: member.user_id, label: member.full_name || 'Unnamed user' })),
+            ];
+          }
+          const selected = condition.values || [];
+          const optionId = (value: string) => `${getFieldValue(condition)}-${value}`;
+
+          if (options.length === 0) {
+            return (
+              <p className="text-sm text-muted-foreground py-2">
+                {condition.field === 'tags' ? "No tags have been created yet" : "No areas have been added to the catalog yet"}
+              </p>
+            );
+          }
+
+          return (
+            <div className="max-h-32 overflow-y-auto rounded-md border p-2 space-y-1">
+              {options.map(option => (
+                <div key={option.value} className="flex items-center gap-2" style={{ paddingLeft: `${(option.depth ?? 0) * 0.75}rem` }}>
+                  <Checkbox
+                    id={optionId(option.value)}
+                    checked={selected.includes(option.value)}
+                    onCheckedChange={(checked) => onChange({
+                      ...condition,
+                      values: checked
+                        ? [...selected, option.value]
+                        : selected.filter(value => value !== option.value),
+                    })}
+                  />
+                  <Label htmlFor={optionId(option.value)} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+            </div>
+          );
+        }
+
+        return (
+          <ListInput
+            values={condition.values}
+            onChange={(values) => onChange({ ...condition, values })}
+            placeholder="Exact values, comma separated"
+          />
+        );
+    }
+  };
+
+  const activeCount = countActiveConditions(filter);
+
+  return (
+    <>
+      <Button variant={activeCount > 0 ? "default" : "outline"} onClick={() => setOpen(true)}>
+        <SlidersHorizontal className="mr-2 h-4 w-4" />
+        Advanced
+        {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Advanced Filters</DialogTitle>
+            <DialogDescription>Combine conditions into groups to narrow down your leads</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {draft.groups.length > 1 && (
+              <div className="flex items-center gap-2 text-sm">
+                <span>Show leads matching</span>
+                <Select
+                  value={draft.match}
+                  onValueChange={(match: 'all' | 'any') => setDraft(prev => ({ ...prev, match }))}
+                >
+                  <SelectTrigger className="w-[90px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">all</SelectItem>
+                    <SelectItem value="any">any</SelectItem>
+                  </SelectContent>
+                </Select>
+                <span>of the groups below</span>
+              </div>
+            )}
+
+            {draft.groups.map((group, groupIndex) => (
+              <div key={groupIndex} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Match</span>
+                  <Select
+                    value={group.match}
+                    onValueChange={(match: 'all' | 'any') => updateGroup(groupIndex, { match })}
+                  >
+                    <SelectTrigger className="w-[90px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">all</SelectItem>
+                      <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span>of these conditions</span>
+                </div>
+
+                {group.conditions.map((condition, conditionIndex) => (
+                  <div key={conditionIndex} className="grid grid-cols-[180px_1fr_auto] gap-2 items-start">
+                    <Select
+                      value={getFieldValue(condition)}
+                      onValueChange={(value) => updateCondition(groupIndex, conditionIndex, parseFieldValue(value))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {leadFilterFields
+                          .filter((field): field is Exclude<LeadFilterField, KeyedLeadFilterField> => !isKeyedFilterField(field))
+                          .map(field => (
+                            <SelectItem key={field} value={field}>{leadFilterFieldConfig[field].label}</SelectItem>
+                          ))}
+                        {allPropertyAttributes.map(attr => (
+                          <SelectItem key={attr.key} value={`${keyedPrefixes.property_detail}${attr.key}`}>{attr.label}</SelectItem>
+                        ))}
+                        {customFields.map(field => (
+                          <SelectItem key={field.id} value={`${keyedPrefixes.custom}${field.key}`}>{field.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {/* Keyed by field so list inputs start fresh when the field changes */}
+                    <div key={getFieldValue(condition)}>
+                      {renderValueEditor(condition, (updated) => updateCondition(groupIndex, conditionIndex, updated))}
+                    </div>
+
+                    <Button variant="ghost" size="icon" onClick={() => deleteCondition(groupIndex, conditionIndex)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateGroup(groupIndex, { conditions: [...group.conditions, newCondition()] })}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add condition
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraft(prev => ({
+                ...prev,
+                groups: [...prev.groups, { match: 'all', conditions: [newCondition()] }],
+              }))}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add group
+            </Button>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(emptyAdvancedFilter)}>
+              Clear All
+            </Button>
+            <Button onClick={apply}>
+              Apply Filters
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+import { Fragment } from "react";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { describeCondition, removeCondition } from "@/lib/leadFilters";
+import { CustomField } from "@/lib/customFields";
+import { AdvancedLeadFilter } from "@/lib/validations";
+
+interface LeadFilterChipsProps {
+  filter: AdvancedLeadFilter;
+  onChange: (filter: AdvancedLeadFilter) => void;
+  getMemberName: (userId: string | null) => string;
+  getTagName: (tagId: string) => string;
+  getCustomField: (key: string) => CustomField | undefined;
+}
+
+export function LeadFilterChips({ filter, onChange, getMemberName, getTagName, getCustomField }: LeadFilterChipsProps) {
+  if (filter.groups.length === 0) return null;
+
+  const groupJoin = filter.match === 'all' ? 'AND' : 'OR';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {filter.groups.map((group, groupIndex) => (
+        <Fragment key={groupIndex}>
+          {groupIndex > 0 && <span className="text-xs font-semibold text-muted-foreground">{groupJoin}</span>}
+          <div className="flex flex-wrap items-center gap-1 rounded-md border border-dashed px-2 py-1">
+            {group.conditions.map((condition, conditionIndex) => (
+              <Fragment key={conditionIndex}>
+                {conditionIndex > 0 && (
+                  <span className="text-xs text-muted-foreground">{group.match === 'all' ? 'and' : 'or'}</span>
+                )}
+                <Badge variant="secondary" className="gap-1">
+                  {describeCondition(condition, getMemberName, getTagName, getCustomField)}
+                  <X
+                    className="h-3 w-3 cursor-pointer"
+                    onClick={() => onChange(removeCondition(filter, groupIndex, conditionIndex))}
+                  />
+                </Badge>
+              </Fragment>
+            ))}
+          </div>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
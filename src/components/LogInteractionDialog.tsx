@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format, parse } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { channelLabels, logInteraction, outcomeLabels } from "@/lib/interactions";
+import {
+  interactionChannels,
+  interactionOutcomes,
+  interactionSchema,
+  InteractionFormData,
+} from "@/lib/validations";
+
+interface LogInteractionDialogProps {
+  leadId: string;
+  leadName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLogged: () => void;
+}
+
+const dateTimeFormat = "yyyy-MM-dd'T'HH:mm";
+
+export function LogInteractionDialog({ leadId, leadName, open, onOpenChange, onLogged }: LogInteractionDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<InteractionFormData>({
+    resolver: zodResolver(interactionSchema),
+    defaultValues: {
+      channel: 'call',
+      direction: 'outbound',
+      outcome: 'connected',
+      occurred_at: new Date(),
+    },
+  });
+
+  const channel = form.watch('channel');
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        channel: 'call',
+        direction: 'outbound',
+        outcome: 'connected',
+        occurred_at: new Date(),
+      });
+    }
+  }, [open, form]);
+
+  const onSubmit = async (data: InteractionFormData) => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const leadUpdated = await logInteraction({ leadId, actorId: user.id, interaction: data });
+
+      toast(leadUpdated
+        ? {
+          title: "Success!",
+          description: `${channelLabels[data.channel]} with ${leadName} has been logged.`,
+        }
+        : {
+          title: "Partially completed",
+          description: `${channelLabels[data.channel]} with ${leadName} has been logged, but you don't have permission to update the lead's last contacted date.`,
+          variant: "destructive",
+        });
+
+      onOpenChange(false);
+      onLogged();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log interaction",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Log Interaction</DialogTitle>
+          <DialogDescription>Record a call, email, meeting or text with {leadName}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="channel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Channel</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {interactionChannels.map(value => (
+                          <SelectItem key={value} value={value}>{channelLabels[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="direction"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Direction</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="outbound">Outbound</SelectItem>
+                        <SelectItem value="inbound">Inbound</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="outcome"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Outcome</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {interactionOutcomes.map(value => (
+                          <SelectItem key={value} value={value}>{outcomeLabels[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="duration_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duration (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder={channel === 'call' || channel === 'meeting' ? "15" : "N/A"}
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="occurred_at"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      value={field.value ? format(field.value, dateTimeFormat) : ''}
+                      onChange={(e) => field.onChange(e.target.value ? parse(e.target.value, dateTimeFormat, new Date()) : undefined)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="What was discussed?"
+                      className="resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Log Interaction"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
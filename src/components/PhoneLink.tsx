@@ -0,0 +1,20 @@
+import { MessageSquare } from "lucide-react";
+import { formatPhone } from "@/lib/phone";
+
+interface PhoneLinkProps {
+  phone: string | null | undefined;
+}
+
+// Formatted number that dials on click, with a text-message link beside it
+export function PhoneLink({ phone }: PhoneLinkProps) {
+  if (!phone) return <>N/A</>;
+
+  return (
+    <span className="inline-flex items-center gap-2 whitespace-nowrap">
+      <a href={`tel:${phone}`} className="hover:underline">{formatPhone(phone)}</a>
+      <a href={`sms:${phone}`} title="Send a text message" className="text-muted-foreground hover:text-foreground">
+        <MessageSquare className="h-3.5 w-3.5" />
+      </a>
+    </span>
+  );
+}
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, Save, Trash2, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { leadViewFiltersSchema, LeadViewFilters, savedViewSchema } from "@/lib/validations";
+
+type SavedView = Tables<'saved_lead_views'>;
+
+interface SavedViewsMenuProps {
+  filters: LeadViewFilters;
+  onApply: (filters: LeadViewFilters) => void;
+}
+
+export function SavedViewsMenu({ filters, onApply }: SavedViewsMenuProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { role } = useProfile();
+  const { toast } = useToast();
+
+  const fetchViews = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('saved_lead_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved views:', error);
+      return;
+    }
+
+    setViews(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      fetchViews();
+    }
+  }, [user, fetchViews]);
+
+  const applyView = (view: SavedView) => {
+    const result = leadViewFiltersSchema.safeParse(view.filters);
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: `The view "${view.name}" could not be loaded.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setActiveViewId(view.id);
+    onApply(result.data);
+  };
+
+  const saveView = async () => {
+    if (!user) return;
+
+    const result = savedViewSchema.safeParse({ name, is_shared: isShared });
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('saved_lead_views')
+        .upsert({
+          user_id: user.id,
+          name: result.data.name,
+          is_shared: result.data.is_shared,
+          filters: filters as Json,
+        }, { onConflict: 'user_id,name' })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success!",
+        description: `View "${data.name}" has been saved.`,
+      });
+
+      setActiveViewId(data.id);
+      setSaveOpen(false);
+      setName("");
+      setIsShared(false);
+      fetchViews();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save view",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteView = async (view: SavedView) => {
+    const { error } = await supabase
+      .from('saved_lead_views')
+      .delete()
+      .eq('id', view.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete view",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (activeViewId === view.id) setActiveViewId(null);
+    fetchViews();
+  };
+
+  const myViews = views.filter(view => view.user_id === user?.id && !view.is_shared);
+  const teamViews = views.filter(view => view.is_shared);
+  const activeView = views.find(view => view.id === activeViewId);
+  const canDelete = (view: SavedView) => view.user_id === user?.id || (view.is_shared && role === 'admin');
+
+  const renderView = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => applyView(view)} className="flex justify-between gap-2">
+      <span className="truncate">{view.name}</span>
+      {canDelete(view) && (
+        <Trash2
+          className="h-3 w-3 text-muted-foreground hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation();
+            deleteView(view);
+          }}
+        />
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="mr-2 h-4 w-4" />
+            {activeView ? activeView.name : "Saved Views"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-64" align="end">
+          <DropdownMenuLabel>My Views</DropdownMenuLabel>
+          {myViews.length > 0
+            ? myViews.map(renderView)
+            : <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</p>}
+          {teamViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <Users className="h-3 w-3" />
+                Team Views
+              </DropdownMenuLabel>
+              {teamViews.map(renderView)}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setSaveOpen(true)}>
+            <Save className="mr-2 h-4 w-4" />
+            Save current view...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Save the current filters and sort order so you can come back to them</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My hot referrals"
+              />
+            </div>
+            {role === 'admin' && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="view-shared"
+                  checked={isShared}
+                  onCheckedChange={(checked) => setIsShared(checked === true)}
+                />
+                <Label htmlFor="view-shared" className="font-normal">Publish to the whole team</Label>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveView} disabled={saving}>
+              {saving ? "Saving..." : "Save View"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
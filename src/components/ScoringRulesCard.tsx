@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+
+type ScoringRule = Tables<'lead_scoring_rules'>;
+
+export function ScoringRulesCard() {
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('lead_scoring_rules')
+      .select('*')
+      .order('signal', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching scoring rules:', error);
+      return;
+    }
+
+    setRules(data || []);
+    setWeights(Object.fromEntries((data || []).map(rule => [rule.signal, rule.weight])));
+  };
+
+  const saveWeights = async () => {
+    setSaving(true);
+    try {
+      const changed = rules.filter(rule => weights[rule.signal] !== rule.weight);
+
+      for (const rule of changed) {
+        const { error } = await supabase
+          .from('lead_scoring_rules')
+          .update({ weight: weights[rule.signal] })
+          .eq('signal', rule.signal);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success!",
+        description: "Lead scoring weights have been updated.",
+      });
+
+      fetchRules();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update scoring weights",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + (weight || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lead Scoring</CardTitle>
+        <CardDescription>
+          Weights for each scoring signal. Scores are scaled to 0-100 against the total weight ({totalWeight}).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map((rule) => (
+          <div key={rule.signal} className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm font-medium">{rule.label}</p>
+              <p className="text-xs text-muted-foreground">{rule.description}</p>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              className="w-20"
+              value={weights[rule.signal] ?? 0}
+              onChange={(e) => setWeights({ ...weights, [rule.signal]: Math.min(100, Math.max(0, Number(e.target.value))) })}
+            />
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button type="button" onClick={saveWeights} disabled={saving || totalWeight === 0}>
+            {saving ? "Saving..." : "Save Weights"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
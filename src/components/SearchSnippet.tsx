@@ -0,0 +1,16 @@
+import { parseSnippet } from "@/lib/search";
+
+interface SearchSnippetProps {
+  snippet: string;
+}
+
+export function SearchSnippet({ snippet }: SearchSnippetProps) {
+  return (
+    <p className="text-xs font-normal text-muted-foreground line-clamp-2 max-w-[320px]">
+      {parseSnippet(snippet).map((part, i) => part.highlighted
+        ? <mark key={i} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{part.text}</mark>
+        : <span key={i}>{part.text}</span>
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { getTagColorClass, Tag } from "@/lib/tags";
+
+interface TagBadgeProps {
+  tag: Pick<Tag, 'name' | 'color'>;
+  onRemove?: () => void;
+}
+
+export function TagBadge({ tag, onRemove }: TagBadgeProps) {
+  return (
+    <Badge variant="outline" className={`gap-1 ${getTagColorClass(tag.color)}`}>
+      {tag.name}
+      {onRemove && <X className="h-3 w-3 cursor-pointer" onClick={onRemove} />}
+    </Badge>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, Plus, Tag as TagIcon } from "lucide-react";
+import { TagBadge } from "@/components/TagBadge";
+import { useToast } from "@/hooks/use-toast";
+import { findTagByName, getTagColorClass, Tag } from "@/lib/tags";
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (tagIds: string[]) => void;
+  // Omitted for users who can't create tags; the picker then only offers existing ones
+  onCreate?: (name: string) => Promise<Tag>;
+  disabled?: boolean;
+}
+
+export function TagPicker({ tags, selectedIds, onChange, onCreate, disabled }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  const selectedTags = selectedIds
+    .map(id => tags.find(tag => tag.id === id))
+    .filter((tag): tag is Tag => Boolean(tag));
+  const canCreate = onCreate && search.trim() && !findTagByName(tags, search);
+
+  const toggle = (tagId: string) => {
+    onChange(selectedIds.includes(tagId) ? selectedIds.filter(id => id !== tagId) : [...selectedIds, tagId]);
+  };
+
+  const create = async () => {
+    if (!onCreate) return;
+
+    setCreating(true);
+    try {
+      const tag = await onCreate(search.trim());
+      onChange([...selectedIds, tag.id]);
+      setSearch("");
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create tag",
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selectedTags.map(tag => (
+        <TagBadge key={tag.id} tag={tag} onRemove={disabled ? undefined : () => toggle(tag.id)} />
+      ))}
+
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" disabled={disabled}>
+            <TagIcon className="mr-2 h-4 w-4" />
+            Add tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-0">
+          <Command>
+            <CommandInput placeholder="Search tags..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{onCreate ? "No matching tags" : "No tags found"}</CommandEmpty>
+              <CommandGroup>
+                {tags.map(tag => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                    <Check className={`mr-2 h-4 w-4 ${selectedIds.includes(tag.id) ? 'opacity-100' : 'opacity-0'}`} />
+                    <span className={`mr-2 h-2 w-2 rounded-full border ${getTagColorClass(tag.color)}`} />
+                    {tag.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+            {canCreate && (
+              <div className="border-t p-1">
+                <Button variant="ghost" size="sm" className="w-full justify-start" onClick={create} disabled={creating}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create "{search.trim()}"
+                </Button>
+              </div>
+            )}
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
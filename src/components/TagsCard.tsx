@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useTags } from "@/hooks/useTags";
+import { useToast } from "@/hooks/use-toast";
+import { TagBadge } from "@/components/TagBadge";
+import { getTagColorClass, Tag, TagColor } from "@/lib/tags";
+import { tagColors, tagSchema } from "@/lib/validations";
+
+function ColorSelect({ value, onChange }: { value: string; onChange: (color: TagColor) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[120px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {tagColors.map(color => (
+          <SelectItem key={color} value={color}>
+            <span className="flex items-center gap-2 capitalize">
+              <span className={`h-3 w-3 rounded-full border ${getTagColorClass(color)}`} />
+              {color}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const parseTag = (tag: { name: string; color: string }) => {
+  const result = tagSchema.safeParse(tag);
+  if (!result.success) throw new Error(result.error.issues[0].message);
+  return result.data;
+};
+
+// Admin-only: tags can be created by anyone while tagging, but renaming or deleting one affects every lead
+export function TagsCard() {
+  const { tags, refresh, addTag } = useTags();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<TagColor>('gray');
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: "Success!", description: success });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tags",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = () => run(async () => {
+    await addTag(parseTag({ name: newName, color: newColor }));
+    setNewName("");
+  }, `Tag "${newName.trim()}" created.`);
+
+  const update = (tag: Tag, changes: { name?: string; color?: TagColor }) => run(async () => {
+    const parsed = parseTag({ name: changes.name ?? tag.name, color: changes.color ?? tag.color });
+    const { error } = await supabase.from('tags').update(parsed).eq('id', tag.id);
+
+    if (error) throw error;
+
+    setNames(({ [tag.id]: _, ...rest }) => rest);
+    await refresh();
+  }, `Tag "${changes.name ?? tag.name}" updated.`);
+
+  const remove = (tag: Tag) => {
+    if (!window.confirm(`Delete the "${tag.name}" tag? It will be removed from every lead.`)) return;
+
+    run(async () => {
+      const { error } = await supabase.from('tags').delete().eq('id', tag.id);
+
+      if (error) throw error;
+
+      await refresh();
+    }, `Tag "${tag.name}" deleted.`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>Team-wide labels for leads. Renaming or deleting a tag applies to every lead that has it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tags.map((tag) => {
+          const name = names[tag.id] ?? tag.name;
+
+          return (
+            <div key={tag.id} className="flex items-center gap-2">
+              <div className="w-32 shrink-0">
+                <TagBadge tag={tag} />
+              </div>
+              <Input
+                value={name}
+                onChange={(e) => setNames({ ...names, [tag.id]: e.target.value })}
+                onBlur={() => name.trim() !== tag.name && update(tag, { name })}
+                disabled={busy}
+              />
+              <ColorSelect value={tag.color} onChange={(color) => update(tag, { color })} />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(tag)}
+                disabled={busy}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-2 border-t pt-4">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New tag name"
+            onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), create())}
+          />
+          <ColorSelect value={newColor} onChange={setNewColor} />
+          <Button type="button" onClick={create} disabled={busy || !newName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Area } from "@/lib/areas";
+
+export const useAreas = () => {
+  const { user } = useAuth();
+  const [areas, setAreas] = useState<Area[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('areas')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching areas:', error);
+    }
+    setAreas(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) refresh();
+  }, [user, refresh]);
+
+  return { areas, loading, refresh };
+};
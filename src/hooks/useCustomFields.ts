@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { CustomField } from "@/lib/customFields";
+
+export const useCustomFields = () => {
+  const { user } = useAuth();
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('custom_fields')
+      .select('*')
+      .order('display_order', { ascending: true })
+      .order('label', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching custom fields:', error);
+    }
+    setCustomFields(data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) refresh();
+  }, [user, refresh]);
+
+  const getCustomField = useCallback(
+    (key: string) => customFields.find(field => field.key === key),
+    [customFields],
+  );
+
+  return { customFields, loading, refresh, getCustomField };
+};
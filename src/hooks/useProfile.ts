@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { defaultPreferences, preferencesSchema, UserPreferences } from "@/lib/validations";
+
+type Profile = Tables<'profiles'>;
+
+export const useProfile = () => {
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id;
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchProfile = useCallback(async () => {
+    // Until auth has settled a missing user may just not be restored yet, so keep reporting loading
+    if (!userId) {
+      setProfile(null);
+      setLoading(authLoading);
+      return;
+    }
+
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+    }
+
+    setProfile(data);
+    setLoading(false);
+  }, [userId, authLoading]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const updateProfile = async (updates: TablesUpdate<'profiles'>) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('user_id', user.id)
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    setProfile(data);
+  };
+
+  // Stored preferences are parsed leniently so missing or stale keys fall back to defaults
+  const preferences = useMemo<UserPreferences>(() => (
+    profile
+      ? preferencesSchema.safeParse(profile.preferences ?? {}).data ?? defaultPreferences
+      : defaultPreferences
+  ), [profile]);
+
+  return {
+    profile,
+    role: profile?.role ?? null,
+    preferences,
+    loading,
+    updateProfile,
+    refetch: fetchProfile,
+  };
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { createTag, Tag } from "@/lib/tags";
+import { TagFormData } from "@/lib/validations";
+
+export const useTags = () => {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Kept in step with `tags` so handlers that run straight after addTag, before a re-render, see the new tag
+  const latestTags = useRef<Tag[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+    }
+    latestTags.current = data || [];
+    setTags(latestTags.current);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) refresh();
+  }, [user, refresh]);
+
+  // New tags are added locally so pickers can select them straight away without a refetch
+  const addTag = useCallback(async (tag: TagFormData) => {
+    if (!user) throw new Error('You must be signed in to create tags');
+
+    const created = await createTag(tag, user.id);
+    latestTags.current = [...latestTags.current, created].sort((a, b) => a.name.localeCompare(b.name));
+    setTags(latestTags.current);
+    return created;
+  }, [user]);
+
+  const getTag = useCallback((tagId: string) => tags.find(tag => tag.id === tagId), [tags]);
+
+  const getTagName = useCallback(
+    (tagId: string) => latestTags.current.find(tag => tag.id === tagId)?.name || 'Unknown tag',
+    []
+  );
+
+  return { tags, loading, refresh, addTag, getTag, getTagName };
+};
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+
+type Profile = Tables<'profiles'>;
+
+export const useTeamMembers = () => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('*')
+      .order('full_name', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching team members:', error);
+        }
+        setMembers(data || []);
+        setLoading(false);
+      });
+  }, [user]);
+
+  // Only active admins and agents can own leads; viewers are read-only
+  const agents = members.filter(member => member.is_active && (member.role === 'admin' || member.role === 'agent'));
+
+  const getMemberName = useCallback((userId: string | null) => {
+    if (!userId) return 'Unassigned';
+    return members.find(member => member.user_id === userId)?.full_name || 'Unknown user';
+  }, [members]);
+
+  return { members, agents, loading, getMemberName };
+};
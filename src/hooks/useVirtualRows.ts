@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useLayoutEffect, useState } from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  estimatedRowHeight: number;
+  overscan?: number;
+  // Called when the user scrolls within a few rows of the end, e.g. to load the next batch
+  onNearEnd?: () => void;
+}
+
+// Windowed rendering for long tables: only rows near the viewport are mounted and spacer rows stand in
+// for the rest. Row height is re-measured from the rendered rows so the spacers stay accurate.
+export const useVirtualRows = ({ count, estimatedRowHeight, overscan = 10, onNearEnd }: VirtualRowsOptions) => {
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+
+  useEffect(() => {
+    if (!container) return;
+
+    const updateViewport = () => setViewportHeight(container.clientHeight);
+    updateViewport();
+
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [container]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  useLayoutEffect(() => {
+    if (!container) return;
+
+    const rows = container.querySelectorAll<HTMLElement>('[data-virtual-row]');
+    if (rows.length === 0) return;
+
+    const total = Array.from(rows).reduce((sum, row) => sum + row.offsetHeight, 0);
+    const measured = total / rows.length;
+    if (Math.abs(measured - rowHeight) > 1) setRowHeight(measured);
+  }, [container, start, end, rowHeight]);
+
+  const onScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+    const target = event.currentTarget;
+    setScrollTop(target.scrollTop);
+
+    if (onNearEnd && target.scrollHeight - target.scrollTop - target.clientHeight < rowHeight * 5) {
+      onNearEnd();
+    }
+  }, [onNearEnd, rowHeight]);
+
+  return {
+    containerRef: setContainer,
+    onScroll,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: (count - end) * rowHeight,
+  };
+};
@@ -14,6 +14,44 @@ export type Database = {
   }
   public: {
     Tables: {
+      areas: {
+        Row: {
+          aliases: string[]
+          created_at: string | null
+          id: string
+          kind: string
+          name: string
+          parent_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string | null
+          id?: string
+          kind?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string | null
+          id?: string
+          kind?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "areas_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "areas"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       buyer_leads: {
         Row: {
           assigned_to: string | null
@@ -23,19 +61,27 @@ export type Database = {
           budget_min: number | null
           created_at: string | null
           created_by: string | null
+          custom_values: Json
+          data_quality_flags: string[]
+          deleted_at: string | null
+          deleted_by: string | null
           email: string
           first_name: string
           id: string
           last_contacted: string | null
           last_name: string
+          lead_score: number | null
+          lead_score_factors: Json | null
           next_follow_up: string | null
           notes: string | null
           phone: string | null
           preferred_areas: string[] | null
           priority: number | null
+          property_details: Json
           property_type: string | null
           source: Database["public"]["Enums"]["lead_source"] | null
           status: Database["public"]["Enums"]["lead_status"] | null
+          tag_ids: string[] | null
           updated_at: string | null
         }
         Insert: {
@@ -46,6 +92,10 @@ export type Database = {
           budget_min?: number | null
           created_at?: string | null
           created_by?: string | null
+          custom_values?: Json
+          data_quality_flags?: string[]
+          deleted_at?: string | null
+          deleted_by?: string | null
           email: string
           first_name: string
           id?: string
@@ -56,6 +106,7 @@ export type Database = {
           phone?: string | null
           preferred_areas?: string[] | null
           priority?: number | null
+          property_details?: Json
           property_type?: string | null
           source?: Database["public"]["Enums"]["lead_source"] | null
           status?: Database["public"]["Enums"]["lead_status"] | null
@@ -69,6 +120,10 @@ export type Database = {
           budget_min?: number | null
           created_at?: string | null
           created_by?: string | null
+          custom_values?: Json
+          data_quality_flags?: string[]
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string
           first_name?: string
           id?: string
@@ -79,6 +134,7 @@ export type Database = {
           phone?: string | null
           preferred_areas?: string[] | null
           priority?: number | null
+          property_details?: Json
           property_type?: string | null
           source?: Database["public"]["Enums"]["lead_source"] | null
           status?: Database["public"]["Enums"]["lead_status"] | null
@@ -86,32 +142,68 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_fields: {
+        Row: {
+          created_at: string | null
+          display_order: number
+          field_type: string
+          id: string
+          key: string
+          label: string
+          options: string[]
+          required: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          display_order?: number
+          field_type: string
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          required?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          display_order?: number
+          field_type?: string
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          required?: boolean
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       lead_activities: {
         Row: {
-          activity_type: string
+          activity_type: Database["public"]["Enums"]["activity_type"]
           created_at: string | null
           description: string
           id: string
           lead_id: string
-          metadata: Json | null
+          metadata: Json
           user_id: string | null
         }
         Insert: {
-          activity_type: string
+          activity_type: Database["public"]["Enums"]["activity_type"]
           created_at?: string | null
           description: string
           id?: string
           lead_id: string
-          metadata?: Json | null
+          metadata?: Json
           user_id?: string | null
         }
         Update: {
-          activity_type?: string
+          activity_type?: Database["public"]["Enums"]["activity_type"]
           created_at?: string | null
           description?: string
           id?: string
           lead_id?: string
-          metadata?: Json | null
+          metadata?: Json
           user_id?: string | null
         }
         Relationships: [
@@ -124,11 +216,161 @@ export type Database = {
           },
         ]
       }
+      lead_activity_search_documents: {
+        Row: {
+          activity_content: string
+          activity_document: unknown
+          lead_id: string
+          updated_at: string
+        }
+        Insert: {
+          activity_content?: string
+          activity_document?: unknown
+          lead_id: string
+          updated_at?: string
+        }
+        Update: {
+          activity_content?: string
+          activity_document?: unknown
+          lead_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_activity_search_documents_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: true
+            referencedRelation: "buyer_leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_audit_log: {
+        Row: {
+          actor_role: string
+          changed_by: string | null
+          changes: Json
+          created_at: string
+          id: string
+          lead_id: string
+          lead_name: string
+          operation: string
+        }
+        Insert: {
+          actor_role: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          lead_id: string
+          lead_name: string
+          operation: string
+        }
+        Update: {
+          actor_role?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          id?: string
+          lead_id?: string
+          lead_name?: string
+          operation?: string
+        }
+        Relationships: []
+      }
+      lead_scoring_rules: {
+        Row: {
+          description: string
+          label: string
+          signal: string
+          updated_at: string | null
+          weight: number
+        }
+        Insert: {
+          description: string
+          label: string
+          signal: string
+          updated_at?: string | null
+          weight?: number
+        }
+        Update: {
+          description?: string
+          label?: string
+          signal?: string
+          updated_at?: string | null
+          weight?: number
+        }
+        Relationships: []
+      }
+      lead_search_documents: {
+        Row: {
+          lead_content: string
+          lead_document: unknown
+          lead_id: string
+          updated_at: string
+        }
+        Insert: {
+          lead_content?: string
+          lead_document?: unknown
+          lead_id: string
+          updated_at?: string
+        }
+        Update: {
+          lead_content?: string
+          lead_document?: unknown
+          lead_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_search_documents_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: true
+            referencedRelation: "buyer_leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_tags: {
+        Row: {
+          created_at: string | null
+          lead_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          lead_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string | null
+          lead_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_tags_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "buyer_leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
           full_name: string | null
           id: string
+          is_active: boolean
+          preferences: Json
           role: Database["public"]["Enums"]["app_role"] | null
           updated_at: string | null
           user_id: string
@@ -137,6 +379,8 @@ export type Database = {
           created_at?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
+          preferences?: Json
           role?: Database["public"]["Enums"]["app_role"] | null
           updated_at?: string | null
           user_id: string
@@ -145,23 +389,248 @@ export type Database = {
           created_at?: string | null
           full_name?: string | null
           id?: string
+          is_active?: boolean
+          preferences?: Json
           role?: Database["public"]["Enums"]["app_role"] | null
           updated_at?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      role_audit_log: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          id: string
+          new_is_active: boolean | null
+          new_role: Database["public"]["Enums"]["app_role"] | null
+          old_is_active: boolean | null
+          old_role: Database["public"]["Enums"]["app_role"] | null
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          id?: string
+          new_is_active?: boolean | null
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          old_is_active?: boolean | null
+          old_role?: Database["public"]["Enums"]["app_role"] | null
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          id?: string
+          new_is_active?: boolean | null
+          new_role?: Database["public"]["Enums"]["app_role"] | null
+          old_is_active?: boolean | null
+          old_role?: Database["public"]["Enums"]["app_role"] | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      saved_lead_views: {
+        Row: {
+          created_at: string | null
+          filters: Json
+          id: string
+          is_shared: boolean
+          name: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          filters?: Json
+          id?: string
+          is_shared?: boolean
+          name?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      bulk_tag_leads: {
+        Args: { add_tag_ids: string[]; lead_ids: string[]; remove_tag_ids: string[] }
+        Returns: {
+          lead_id: string
+          new_tag_ids: string[]
+          old_tag_ids: string[]
+        }[]
+      }
+      bulk_update_leads: {
+        Args: { changes: Json; lead_ids: string[] }
+        Returns: {
+          error_message: string
+          lead_id: string
+          new_assigned_to: string
+          new_preferred_areas: string[]
+          new_priority: number
+          new_status: Database["public"]["Enums"]["lead_status"]
+          old_assigned_to: string
+          old_preferred_areas: string[]
+          old_priority: number
+          old_status: Database["public"]["Enums"]["lead_status"]
+        }[]
+      }
+      can_edit_lead: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: boolean
+      }
+      can_view_lead: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: boolean
+      }
+      can_view_lead_activities: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: boolean
+      }
+      find_duplicate_candidates: {
+        Args: { leads: Json }
+        Returns: {
+          email: string
+          first_name: string
+          id: string
+          input_index: number
+          last_name: string
+          phone: string
+        }[]
+      }
       get_user_role: {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      lead_audit_diff: {
+        Args: { new_row: Json; old_row: Json }
+        Returns: Json
+      }
+      lead_score: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: number
+      }
+      lead_score_factors: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: Json
+      }
+      lead_search_query: {
+        Args: { search: string }
+        Returns: unknown
+      }
+      lead_search_snippets: {
+        Args: { lead_ids: string[]; search: string }
+        Returns: {
+          lead_id: string
+          snippet: string
+        }[]
+      }
+      lead_search_text: {
+        Args: { value: string }
+        Returns: string
+      }
+      normalize_email: {
+        Args: { value: string }
+        Returns: string
+      }
+      normalize_property_type: {
+        Args: { value: string }
+        Returns: string
+      }
+      phone_key: {
+        Args: { value: string }
+        Returns: string
+      }
+      purge_leads: {
+        Args: { lead_ids: string[] }
+        Returns: string[]
+      }
+      refresh_lead_search_document: {
+        Args: { target_lead_id: string }
+        Returns: undefined
+      }
+      remap_lead_area: {
+        Args: { from_name: string; to_area_id: string }
+        Returns: string[]
+      }
+      replace_lead_area: {
+        Args: { from_name: string; lead_areas: string[]; to_name: string }
+        Returns: string[]
+      }
+      restore_leads: {
+        Args: { lead_ids: string[] }
+        Returns: string[]
+      }
+      search_leads: {
+        Args: { search: string }
+        Returns: Database["public"]["Tables"]["buyer_leads"]["Row"][]
+      }
+      tag_ids: {
+        Args: { "": Database["public"]["Tables"]["buyer_leads"]["Row"] }
+        Returns: string[]
+      }
+      trash_leads: {
+        Args: { lead_ids: string[] }
+        Returns: string[]
+      }
+      trashed_leads: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["buyer_leads"]["Row"][]
+      }
+      uncatalogued_lead_areas: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          lead_count: number
+          name: string
+        }[]
+      }
     }
     Enums: {
+      activity_type:
+        | "lead_created"
+        | "lead_updated"
+        | "lead_assigned"
+        | "status_changed"
+        | "follow_up_completed"
+        | "interaction_logged"
+        | "note_added"
       app_role: "admin" | "agent" | "viewer"
       lead_source:
         | "website"
@@ -303,6 +772,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      activity_type: [
+        "lead_created",
+        "lead_updated",
+        "lead_assigned",
+        "status_changed",
+        "follow_up_completed",
+        "interaction_logged",
+        "note_added",
+      ],
       app_role: ["admin", "agent", "viewer"],
       lead_source: [
         "website",
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Json, Tables } from "@/integrations/supabase/types";
+import { getErrorMessage } from "@/lib/utils";
+import { interactionChannels, interactionDirections, interactionOutcomes } from "@/lib/validations";
+
+export type ActivityType = Enums<'activity_type'>;
+
+const leadStatus = z.enum(['new', 'contacted', 'qualified', 'not_qualified', 'closed']);
+const timestamp = z.string().datetime({ offset: true });
+
+export const leadCreatedMetadataSchema = z.object({
+  imported: z.boolean().optional(),
+});
+
+export const leadUpdatedMetadataSchema = z.object({
+  changes: z.record(z.object({
+    from: z.unknown(),
+    to: z.unknown(),
+  })),
+});
+
+export const leadAssignedMetadataSchema = z.object({
+  from: z.string().uuid().nullable(),
+  to: z.string().uuid().nullable(),
+  from_name: z.string().nullable(),
+  to_name: z.string().nullable(),
+});
+
+export const statusChangedMetadataSchema = z.object({
+  from: leadStatus.nullable(),
+  to: leadStatus,
+});
+
+export const followUpCompletedMetadataSchema = z.object({
+  completed_follow_up: timestamp.nullable(),
+  contacted_at: timestamp,
+  next_follow_up: timestamp.nullable(),
+  notes: z.string().nullable(),
+});
+
+export const interactionLoggedMetadataSchema = z.object({
+  channel: z.enum(interactionChannels),
+  direction: z.enum(interactionDirections),
+  outcome: z.enum(interactionOutcomes),
+  duration_minutes: z.number().int().min(0).nullable(),
+  occurred_at: timestamp,
+  notes: z.string().nullable(),
+});
+
+export const noteAddedMetadataSchema = z.object({
+  legacy_activity_type: z.string().optional(),
+});
+
+export const activityMetadataSchemas = {
+  lead_created: leadCreatedMetadataSchema,
+  lead_updated: leadUpdatedMetadataSchema,
+  lead_assigned: leadAssignedMetadataSchema,
+  status_changed: statusChangedMetadataSchema,
+  follow_up_completed: followUpCompletedMetadataSchema,
+  interaction_logged: interactionLoggedMetadataSchema,
+  note_added: noteAddedMetadataSchema,
+} satisfies Record<ActivityType, z.ZodTypeAny>;
+
+export type ActivityMetadata<T extends ActivityType> = z.infer<typeof activityMetadataSchemas[T]>;
+
+export const activityTypeLabels: Record<ActivityType, string> = {
+  lead_created: 'Lead created',
+  lead_updated: 'Lead updated',
+  lead_assigned: 'Assignment',
+  status_changed: 'Status changed',
+  follow_up_completed: 'Follow-up completed',
+  interaction_logged: 'Interaction',
+  note_added: 'Note',
+};
+
+type ActivityRow = Tables<'lead_activities'>;
+
+// A lead_activities row whose metadata has been validated against its type's schema.
+// metadata is null when a stored row does not match, e.g. rows written before the schemas existed.
+export type TypedActivity = {
+  [T in ActivityType]: Omit<ActivityRow, 'activity_type' | 'metadata'> & {
+    activity_type: T;
+    metadata: ActivityMetadata<T> | null;
+  };
+}[ActivityType];
+
+export interface ActivityInput<T extends ActivityType> {
+  leadId: string;
+  actorId: string;
+  type: T;
+  description: string;
+  metadata: ActivityMetadata<T>;
+}
+
+export const buildActivity = <T extends ActivityType>({ leadId, actorId, type, description, metadata }: ActivityInput<T>) => ({
+  lead_id: leadId,
+  user_id: actorId,
+  activity_type: type,
+  description,
+  metadata: activityMetadataSchemas[type].parse(metadata) as Json,
+});
+
+export const recordActivity = async <T extends ActivityType>(input: ActivityInput<T>) => {
+  const { error } = await supabase
+    .from('lead_activities')
+    .insert(buildActivity(input));
+
+  if (error) throw error;
+};
+
+// Inserts all activities in one request, e.g. one per lead touched by a bulk action
+export const recordActivities = async (inputs: ActivityInput<ActivityType>[]) => {
+  if (inputs.length === 0) return;
+
+  const { error } = await supabase
+    .from('lead_activities')
+    .insert(inputs.map(buildActivity));
+
+  if (error) throw error;
+};
+
+// For activities written after the change they describe: a failure shouldn't hide that the change itself
+// went through, so the error message is returned for the caller to report instead of thrown
+export const tryRecordActivities = async (inputs: ActivityInput<ActivityType>[]) => {
+  try {
+    await recordActivities(inputs);
+    return null;
+  } catch (error: unknown) {
+    return getErrorMessage(error, 'Failed to record activity');
+  }
+};
+
+export const parseActivity = (row: ActivityRow): TypedActivity => {
+  const result = activityMetadataSchemas[row.activity_type].safeParse(row.metadata ?? {});
+  return { ...row, metadata: result.success ? result.data : null } as TypedActivity;
+};
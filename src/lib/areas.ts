@@ -0,0 +1,153 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { areaKinds } from "@/lib/validations";
+
+export type Area = Tables<'areas'>;
+export type AreaKind = typeof areaKinds[number];
+
+export const areaKindLabels: Record<AreaKind, string> = {
+  city: 'City',
+  neighborhood: 'Neighborhood',
+  zip_code: 'Zip Code',
+};
+
+// Depth-first, alphabetical within each level. The visited set keeps a parent cycle from looping forever.
+export const flattenAreaTree = (areas: Area[]) => {
+  const sorted = [...areas].sort((a, b) => a.name.localeCompare(b.name));
+  const visited = new Set<string>();
+  const rows: Array<{ area: Area; depth: number }> = [];
+
+  const visit = (area: Area, depth: number) => {
+    if (visited.has(area.id)) return;
+    visited.add(area.id);
+    rows.push({ area, depth });
+    sorted.filter(child => child.parent_id === area.id).forEach(child => visit(child, depth + 1));
+  };
+
+  sorted
+    .filter(area => !area.parent_id || !areas.some(candidate => candidate.id === area.parent_id))
+    .forEach(area => visit(area, 0));
+  // Anything still unvisited is part of a cycle; list it rather than hide it
+  sorted.forEach(area => visit(area, 0));
+
+  return rows;
+};
+
+export const getDescendantIds = (areaId: string, areas: Area[]) => {
+  const ids = new Set<string>();
+  const queue = [areaId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    areas
+      .filter(area => area.parent_id === parentId && !ids.has(area.id) && area.id !== areaId)
+      .forEach(area => {
+        ids.add(area.id);
+        queue.push(area.id);
+      });
+  }
+
+  return ids;
+};
+
+// Filtering on a city should also find leads that only named one of its neighborhoods or zip codes
+export const expandAreaNames = (names: string[], areas: Area[]) => {
+  const expanded = new Set(names);
+
+  names.forEach(name => {
+    const area = areas.find(candidate => candidate.name === name);
+    if (!area) return;
+    getDescendantIds(area.id, areas).forEach(id => {
+      const descendant = areas.find(candidate => candidate.id === id);
+      if (descendant) expanded.add(descendant.name);
+    });
+  });
+
+  return [...expanded];
+};
+
+const normalizeAreaName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Matches a typed or imported name to the catalog: case, spacing and punctuation are ignored, aliases count
+// as names, and small typos are forgiven (one edit per five characters) as long as a single area is closest
+export const matchArea = (name: string, areas: Area[]) => {
+  const target = normalizeAreaName(name);
+  if (!target) return undefined;
+
+  const candidates = areas.flatMap(area =>
+    [area.name, ...area.aliases].map(label => ({ area, label: normalizeAreaName(label) }))
+  );
+
+  const exact = candidates.find(candidate => candidate.label === target);
+  if (exact) return exact.area;
+
+  const maxDistance = Math.floor(target.length / 5);
+  if (maxDistance === 0) return undefined;
+
+  let best: Area | undefined;
+  let bestDistance = Infinity;
+  let tied = false;
+
+  candidates.forEach(candidate => {
+    const distance = editDistance(candidate.label, target);
+    if (distance < bestDistance) {
+      best = candidate.area;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance && candidate.area.id !== best?.id) {
+      tied = true;
+    }
+  });
+
+  return bestDistance <= maxDistance && !tied ? best : undefined;
+};
+
+// Canonical names for everything that matched. Unmatched names are kept as typed, so nothing is lost,
+// and reported so they can be added to the catalog or remapped later.
+export const matchAreaNames = (names: string[], areas: Area[]) => {
+  const matched: string[] = [];
+  const unmatched: string[] = [];
+
+  names.forEach(name => {
+    const canonical = matchArea(name, areas)?.name ?? name;
+    if (canonical === name && !areas.some(area => area.name === name)) unmatched.push(name);
+    if (!matched.includes(canonical)) matched.push(canonical);
+  });
+
+  return { names: matched, unmatched };
+};
+
+export const fetchUncataloguedAreas = async () => {
+  const { data, error } = await supabase.rpc('uncatalogued_lead_areas');
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Returns the ids of the leads that were changed
+export const remapLeadArea = async (fromName: string, toAreaId: string) => {
+  const { data, error } = await supabase.rpc('remap_lead_area', { from_name: fromName, to_area_id: toAreaId });
+
+  if (error) throw error;
+
+  return data || [];
+};
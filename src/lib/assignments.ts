@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ActivityInput, recordActivity } from "@/lib/activities";
+
+interface AssignmentChange {
+  leadId: string;
+  actorId: string;
+  from: string | null;
+  to: string | null;
+  getMemberName: (userId: string | null) => string;
+}
+
+export const assignmentActivity = ({ leadId, actorId, from, to, getMemberName }: AssignmentChange): ActivityInput<'lead_assigned'> => ({
+  leadId,
+  actorId,
+  type: 'lead_assigned',
+  description: to
+    ? `Assigned to ${getMemberName(to)}${from ? ` (previously ${getMemberName(from)})` : ''}`
+    : `Unassigned from ${getMemberName(from)}`,
+  metadata: {
+    from,
+    to,
+    from_name: from ? getMemberName(from) : null,
+    to_name: to ? getMemberName(to) : null,
+  },
+});
+
+export const logAssignment = async (change: AssignmentChange) => {
+  await recordActivity(assignmentActivity(change));
+};
+
+export const assignLead = async (change: AssignmentChange) => {
+  const { data, error } = await supabase
+    .from('buyer_leads')
+    .update({ assigned_to: change.to })
+    .eq('id', change.leadId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  // RLS skips rows the user can't edit rather than raising, so no row back means nothing was saved
+  if (!data) throw new Error("You don't have permission to reassign this lead");
+
+  await logAssignment(change);
+};
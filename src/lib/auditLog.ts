@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<'lead_audit_log'>;
+
+export const auditOperations = ['INSERT', 'UPDATE', 'DELETE'] as const;
+export type AuditOperation = typeof auditOperations[number];
+
+export const auditPageSize = 50;
+
+const auditChangesSchema = z.record(z.object({
+  from: z.unknown(),
+  to: z.unknown(),
+}));
+
+export interface AuditChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export const parseAuditChanges = (changes: Json): AuditChange[] => {
+  const result = auditChangesSchema.safeParse(changes);
+  if (!result.success) return [];
+
+  return Object.entries(result.data)
+    .map(([field, { from, to }]) => ({ field, from, to }))
+    .sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Trashing and restoring are plain updates of deleted_at, but read better under their own names
+export const describeAuditEntry = (entry: AuditEntry) => {
+  if (entry.operation === 'INSERT') return 'Created';
+  if (entry.operation === 'DELETE') return 'Permanently deleted';
+
+  const deletedAt = parseAuditChanges(entry.changes).find(change => change.field === 'deleted_at');
+  if (deletedAt) return deletedAt.to === null ? 'Restored from trash' : 'Moved to trash';
+
+  return 'Updated';
+};
+
+interface AuditLogQuery {
+  leadId?: string | null;
+  operation?: AuditOperation | null;
+  offset: number;
+}
+
+// One extra row is fetched to tell whether there is more to load
+export const fetchAuditLog = async ({ leadId, operation, offset }: AuditLogQuery) => {
+  let query = supabase
+    .from('lead_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(offset, offset + auditPageSize);
+
+  if (leadId) query = query.eq('lead_id', leadId);
+  if (operation) query = query.eq('operation', operation);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return {
+    entries: (data || []).slice(0, auditPageSize),
+    hasMore: (data || []).length > auditPageSize,
+  };
+};
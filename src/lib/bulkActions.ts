@@ -0,0 +1,197 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Json } from "@/integrations/supabase/types";
+import { ActivityInput, ActivityType, tryRecordActivities } from "@/lib/activities";
+import { assignmentActivity } from "@/lib/assignments";
+import { LeadStatus, statusChangeActivity } from "@/lib/leads";
+import { tagChangeActivity } from "@/lib/tags";
+import { trashLeads } from "@/lib/trash";
+
+// Upper bound for "select all matching"; keeps a single bulk request to a sane size
+export const bulkSelectionLimit = 1000;
+
+export type BulkChange =
+  | { kind: 'status'; status: LeadStatus }
+  | { kind: 'priority'; priority: number }
+  | { kind: 'assign'; assignedTo: string | null }
+  | { kind: 'areas'; add: string[]; remove: string[] }
+  | { kind: 'tags'; add: string[]; remove: string[] };
+
+// Changes that are columns of buyer_leads, as opposed to tags which live in their own table
+type ColumnChange = Exclude<BulkChange, { kind: 'tags' }>;
+
+export interface BulkResult {
+  requested: number;
+  succeeded: number;
+  // Leads the request skipped, usually because RLS doesn't let the user change them
+  failedIds: string[];
+  // Distinct database errors behind some of the failedIds, when the failure was more than RLS skipping a lead
+  failureReasons?: string[];
+  // Set when the change went through but its activity entries could not be written
+  activityError?: string;
+}
+
+type UpdatedLead = Database["public"]["Functions"]["bulk_update_leads"]["Returns"][number];
+
+interface BulkUpdate<Change extends BulkChange = BulkChange> {
+  leadIds: string[];
+  actorId: string;
+  change: Change;
+  getMemberName: (userId: string | null) => string;
+  getTagName: (tagId: string) => string;
+}
+
+const toChanges = (change: ColumnChange) => {
+  switch (change.kind) {
+    case 'status': return { status: change.status };
+    case 'priority': return { priority: change.priority };
+    case 'assign': return { assigned_to: change.assignedTo };
+    case 'areas': return { add_areas: change.add, remove_areas: change.remove };
+  }
+};
+
+const sameAreas = (a: string[] | null, b: string[] | null) =>
+  (a || []).join('\u0000') === (b || []).join('\u0000');
+
+// One activity per lead whose value actually changed; leads already in the target state are left alone
+const toActivity = (row: UpdatedLead, { actorId, change, getMemberName }: BulkUpdate<ColumnChange>): ActivityInput<ActivityType> | null => {
+  const leadId = row.lead_id;
+
+  switch (change.kind) {
+    case 'status':
+      if (row.old_status === row.new_status) return null;
+      return statusChangeActivity({ leadId, actorId, from: row.old_status, to: row.new_status });
+    case 'assign':
+      if (row.old_assigned_to === row.new_assigned_to) return null;
+      return assignmentActivity({ leadId, actorId, from: row.old_assigned_to, to: row.new_assigned_to, getMemberName });
+    case 'priority':
+      if (row.old_priority === row.new_priority) return null;
+      return {
+        leadId,
+        actorId,
+        type: 'lead_updated',
+        description: `Priority changed from ${row.old_priority ?? 'none'} to ${row.new_priority}`,
+        metadata: { changes: { priority: { from: row.old_priority, to: row.new_priority } } },
+      };
+    case 'areas':
+      if (sameAreas(row.old_preferred_areas, row.new_preferred_areas)) return null;
+      return {
+        leadId,
+        actorId,
+        type: 'lead_updated',
+        description: 'Updated preferred areas',
+        metadata: { changes: { preferred_areas: { from: row.old_preferred_areas, to: row.new_preferred_areas } } },
+      };
+  }
+};
+
+const withActivities = async (result: BulkResult, activities: ActivityInput<ActivityType>[]) => {
+  const activityError = await tryRecordActivities(activities);
+  return activityError ? { ...result, activityError } : result;
+};
+
+const bulkTagLeads = async (update: BulkUpdate<Extract<BulkChange, { kind: 'tags' }>>): Promise<BulkResult> => {
+  const { data, error } = await supabase.rpc('bulk_tag_leads', {
+    lead_ids: update.leadIds,
+    add_tag_ids: update.change.add,
+    remove_tag_ids: update.change.remove,
+  });
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const taggedIds = new Set(rows.map(row => row.lead_id));
+
+  return withActivities(
+    {
+      requested: update.leadIds.length,
+      succeeded: rows.length,
+      failedIds: update.leadIds.filter(id => !taggedIds.has(id)),
+    },
+    rows
+      .map(row => tagChangeActivity({
+        leadId: row.lead_id,
+        actorId: update.actorId,
+        from: row.old_tag_ids,
+        to: row.new_tag_ids,
+        getTagName: update.getTagName,
+      }))
+      .filter((activity): activity is ActivityInput<'lead_updated'> => activity !== null),
+  );
+};
+
+export const bulkUpdateLeads = async (update: BulkUpdate): Promise<BulkResult> => {
+  const { change } = update;
+  if (change.kind === 'tags') return bulkTagLeads({ ...update, change });
+
+  const { data, error } = await supabase.rpc('bulk_update_leads', {
+    lead_ids: update.leadIds,
+    changes: toChanges(change) as Json,
+  });
+
+  if (error) throw error;
+
+  const rows = (data || []).filter(row => !row.error_message);
+  const failureReasons = [...new Set((data || []).map(row => row.error_message).filter(Boolean))];
+  const updatedIds = new Set(rows.map(row => row.lead_id));
+
+  return withActivities(
+    {
+      requested: update.leadIds.length,
+      succeeded: rows.length,
+      failedIds: update.leadIds.filter(id => !updatedIds.has(id)),
+      ...(failureReasons.length > 0 ? { failureReasons } : {}),
+    },
+    rows.map(row => toActivity(row, { ...update, change })).filter((activity): activity is ActivityInput<ActivityType> => activity !== null),
+  );
+};
+
+// Moves the leads to the trash, where an admin can restore them with their activity history intact
+export const bulkDeleteLeads = async (leadIds: string[]): Promise<BulkResult> => {
+  const deletedIds = new Set(await trashLeads(leadIds));
+
+  return {
+    requested: leadIds.length,
+    succeeded: deletedIds.size,
+    failedIds: leadIds.filter(id => !deletedIds.has(id)),
+  };
+};
+
+// Ids per request when reading a selection back. They go in the query string, so a selection of
+// bulkSelectionLimit leads is split up to stay well inside URL length limits.
+const idBatchSize = 100;
+
+const fetchLeadBatch = async (leadIds: string[]) => {
+  const { data, error } = await supabase
+    .from('buyer_leads')
+    .select('*, tag_ids')
+    .in('id', leadIds);
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchSelectedLeads = async (leadIds: string[]) => {
+  const leads: Awaited<ReturnType<typeof fetchLeadBatch>> = [];
+
+  for (let start = 0; start < leadIds.length; start += idBatchSize) {
+    leads.push(...await fetchLeadBatch(leadIds.slice(start, start + idBatchSize)));
+  }
+
+  return leads;
+};
+
+export const describeBulkResult = (result: BulkResult, verb: string) => {
+  const parts = [`${verb} ${result.succeeded} of ${result.requested} leads.`];
+
+  if (result.failureReasons) {
+    parts.push(`${result.failedIds.length} could not be ${verb.toLowerCase()}: ${result.failureReasons.join('; ')}.`);
+  } else if (result.failedIds.length > 0) {
+    parts.push(`${result.failedIds.length} could not be ${verb.toLowerCase()}, most likely because you don't have permission to change them.`);
+  }
+  if (result.activityError) {
+    parts.push(`The changes were saved, but the activity log could not be updated: ${result.activityError}`);
+  }
+
+  return parts.join(' ');
+};
@@ -0,0 +1,102 @@
+import { Tables } from "@/integrations/supabase/types";
+import { formatTagList, Tag } from "@/lib/tags";
+import { CustomField, formatCustomCsvValue, getCustomValues } from "@/lib/customFields";
+
+export const leadExportHeaders = [
+  'first_name', 'last_name', 'email', 'phone', 'budget_min', 'budget_max',
+  'preferred_areas', 'tags', 'property_type', 'bedrooms', 'bathrooms', 'status',
+  'source', 'priority', 'notes', 'created_at'
+] as const;
+
+// Every header is a buyer_leads column except tags, which is written from the tag_ids computed field
+type LeadExportColumn = Exclude<typeof leadExportHeaders[number], 'tags'>;
+
+export type LeadCsvRow = Pick<Tables<'buyer_leads'>, LeadExportColumn | 'tag_ids' | 'custom_values'>;
+
+// Notes and tag lists can hold commas, quotes and line breaks; any of those means the cell is quoted,
+// with embedded quotes doubled
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string' && /[",\r\n]/.test(value)) return `"${value.replace(/"/g, '""')}"`;
+  return value;
+};
+
+// Custom fields follow the standard columns, one column per field named after its key
+export const buildLeadsCsv = (leads: LeadCsvRow[], tags: Tag[], customFields: CustomField[]) => [
+  [...leadExportHeaders, ...customFields.map(field => field.key)].join(','),
+  ...leads.map(lead => {
+    const customValues = getCustomValues(lead.custom_values);
+
+    return [
+      ...leadExportHeaders.map(header => {
+        const value: unknown = header === 'tags' ? formatTagList(lead.tag_ids, tags) : lead[header];
+
+        // Handle special cases
+        if (header === 'preferred_areas' && Array.isArray(value)) {
+          return value.join(';');
+        }
+
+        return formatCell(value);
+      }),
+      ...customFields.map(field => formatCell(formatCustomCsvValue(field, customValues[field.key]))),
+    ].join(',');
+  })
+].join('\n');
+
+// Splits CSV text into records of trimmed cells, reading quoted cells the way formatCell writes them:
+// commas and line breaks inside quotes are kept, and "" is a literal quote. Blank lines are skipped.
+export const parseCsv = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endCell = () => {
+    record.push(cell.trim());
+    cell = '';
+  };
+
+  const endRecord = () => {
+    endCell();
+    if (record.some(value => value !== '')) records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  endRecord();
+  return records;
+};
+
+export const downloadCsv = (content: string, filename: string) => {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
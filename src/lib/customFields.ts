@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { format, parse } from "date-fns";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { customFieldTypes } from "@/lib/validations";
+
+export type CustomField = Tables<'custom_fields'>;
+// The parts of a definition needed to edit, validate and display a value; property type attributes share it
+export type CustomFieldDefinition = Pick<CustomField, 'key' | 'label' | 'field_type' | 'options' | 'required'>;
+export type CustomFieldType = typeof customFieldTypes[number];
+export type CustomValues = Record<string, unknown>;
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  boolean: 'Yes / No',
+};
+
+const customDateFormat = 'yyyy-MM-dd';
+
+// "Pre-approval Lender" -> "pre_approval_lender"
+export const toCustomFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 40);
+
+export const getCustomValues = (value: Json | undefined): CustomValues =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+// Drops empty values so a cleared field disappears from custom_values rather than being stored as ""
+export const compactCustomValues = (values: CustomValues | undefined): Json =>
+  Object.fromEntries(
+    Object.entries(values || {}).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as Json;
+
+const buildValueSchema = (field: CustomFieldDefinition) => {
+  const requiredMessage = `${field.label} is required`;
+  let schema: z.ZodTypeAny;
+
+  switch (field.field_type as CustomFieldType) {
+    case 'number':
+      schema = z.number({ required_error: requiredMessage, invalid_type_error: `${field.label} must be a number` });
+      break;
+    case 'boolean':
+      schema = z.boolean({ required_error: requiredMessage, invalid_type_error: `${field.label} must be yes or no` });
+      break;
+    case 'date':
+      schema = z.string({ required_error: requiredMessage })
+        .regex(/^\d{4}-\d{2}-\d{2}$/, `${field.label} must be a date formatted as YYYY-MM-DD`);
+      break;
+    case 'select':
+      schema = z.string({ required_error: requiredMessage })
+        .refine((value) => field.options.includes(value), `${field.label} must be one of: ${field.options.join(', ')}`);
+      break;
+    default:
+      schema = z.string({ required_error: requiredMessage }).trim();
+  }
+
+  // Cleared inputs come through as empty strings, which should count as "no value"
+  return z.preprocess(
+    (value) => value === '' || value === null ? undefined : value,
+    field.required ? schema : schema.optional(),
+  );
+};
+
+// Validates custom_values against the current definitions. Values of deleted fields are passed through
+// untouched so editing a lead doesn't quietly erase them.
+export const buildCustomValuesSchema = (fields: CustomFieldDefinition[]) =>
+  z.object(Object.fromEntries(fields.map(field => [field.key, buildValueSchema(field)]))).passthrough();
+
+export const formatCustomValue = (field: CustomFieldDefinition, value: unknown) => {
+  if (value === undefined || value === null || value === '') return 'N/A';
+
+  switch (field.field_type as CustomFieldType) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'date':
+      return typeof value === 'string' ? format(parse(value, customDateFormat, new Date()), 'MMM d, yyyy') : String(value);
+    default:
+      return String(value);
+  }
+};
+
+// CSV cells are plain text: booleans are written as yes/no and read back from yes/no, true/false or 1/0
+export const formatCustomCsvValue = (field: CustomFieldDefinition, value: unknown) => {
+  if (value === undefined || value === null) return '';
+  if (field.field_type === 'boolean') return value ? 'yes' : 'no';
+  return value;
+};
+
+// Anything that can't be converted is passed through unchanged so the schema reports it against the field
+export const parseCustomCsvValue = (field: CustomFieldDefinition, raw: string | undefined): unknown => {
+  const value = raw?.trim();
+  if (!value) return undefined;
+
+  switch (field.field_type as CustomFieldType) {
+    case 'number': {
+      const number = Number(value);
+      return Number.isNaN(number) ? value : number;
+    }
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (['yes', 'true', '1'].includes(normalized)) return true;
+      if (['no', 'false', '0'].includes(normalized)) return false;
+      return value;
+    }
+    case 'select':
+      return field.options.find(option => option.toLowerCase() === value.toLowerCase()) ?? value;
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,68 @@
+// Throwaway inbox providers. Not exhaustive: new ones appear all the time, so this catches the common
+// ones and subdomains of them (anything.mailinator.com) rather than promising to catch everything.
+export const disposableDomains = new Set([
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'burnermail.io',
+  'discard.email',
+  'dispostable.com',
+  'dropmail.me',
+  'emailfake.com',
+  'emailondeck.com',
+  'emltmp.com',
+  'fakeinbox.com',
+  'fakemail.net',
+  'getairmail.com',
+  'getnada.com',
+  'grr.la',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'inboxkitten.com',
+  'jetable.org',
+  'mail.tm',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailpoof.com',
+  'mailsac.com',
+  'mintemail.com',
+  'minutemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mytemp.email',
+  'nada.email',
+  'pokemail.net',
+  'sharklasers.com',
+  'spam4.me',
+  'spambox.us',
+  'spamgourmet.com',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.net',
+  'tempmailo.com',
+  'tempr.email',
+  'throwam.com',
+  'throwawaymail.com',
+  'tmails.net',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+]);
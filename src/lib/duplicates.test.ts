@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildDuplicateIndex,
+  DuplicateCandidate,
+  findDuplicates,
+  isLikelyDuplicate,
+  normalizeEmail,
+  scoreDuplicate,
+} from "@/lib/duplicates";
+
+// The module fetches candidates through the client; these tests only cover the scoring
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const lead = (overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate => ({
+  id: "lead-1",
+  first_name: "John",
+  last_name: "Smith",
+  email: "john.smith@example.com",
+  phone: "+15552010123",
+  ...overrides,
+});
+
+describe("normalizeEmail", () => {
+  it("ignores case, surrounding space and +tags", () => {
+    expect(normalizeEmail(" John+homes@Example.com ")).toBe("john@example.com");
+  });
+
+  it("ignores dots in Gmail mailboxes and treats googlemail.com as gmail.com", () => {
+    expect(normalizeEmail("j.o.h.n@googlemail.com")).toBe("john@gmail.com");
+    expect(normalizeEmail("j.ohn@example.com")).toBe("j.ohn@example.com");
+  });
+});
+
+describe("scoreDuplicate", () => {
+  it("is all but certain when the email and phone both match", () => {
+    const match = scoreDuplicate(
+      { first_name: "Peter", last_name: "Parker", email: "John.Smith+1@example.com", phone: "(555) 201-0123" },
+      lead(),
+    );
+    expect(match.score).toBe(100);
+    expect(match.reasons).toEqual(["Same email", "Same phone"]);
+    expect(isLikelyDuplicate(match)).toBe(true);
+  });
+
+  it("lines up free-text phones with E.164 ones by their last ten digits", () => {
+    const match = scoreDuplicate({ first_name: "A", last_name: "B", email: "a@b.com", phone: "555 201 0123" }, lead());
+    expect(match.reasons).toEqual(["Same phone"]);
+  });
+
+  it("doesn't match phones too short to identify a line", () => {
+    const match = scoreDuplicate({ first_name: "A", last_name: "B", email: "a@b.com", phone: "0123" }, lead({ phone: "0123" }));
+    expect(match.score).toBe(0);
+  });
+
+  it("scores close names, including accents and names entered back to front", () => {
+    expect(scoreDuplicate({ first_name: "John", last_name: "Smyth", email: "x@y.com" }, lead()).reasons[0])
+      .toMatch(/^Similar name \(\d+%\)$/);
+    expect(scoreDuplicate({ first_name: "Smith", last_name: "John", email: "x@y.com" }, lead()).reasons)
+      .toEqual(["Same name"]);
+    expect(scoreDuplicate({ first_name: "José", last_name: "Núñez", email: "x@y.com" }, lead({ first_name: "Jose", last_name: "Nunez" })).reasons)
+      .toEqual(["Same name"]);
+  });
+
+  it("takes the weaker of the two names, so a shared surname alone doesn't match", () => {
+    expect(scoreDuplicate({ first_name: "Jane", last_name: "Smith", email: "x@y.com" }, lead()).score).toBe(0);
+  });
+});
+
+describe("findDuplicates", () => {
+  it("drops weak matches and puts the strongest first", () => {
+    const byName = lead({ id: "by-name", email: "other@example.com", phone: null });
+    const byEmail = lead({ id: "by-email", first_name: "Someone", last_name: "Else", phone: null });
+    const unrelated = lead({ id: "unrelated", first_name: "Ann", last_name: "Lee", email: "ann@example.com", phone: null });
+
+    const matches = findDuplicates({ first_name: "John", last_name: "Smith", email: "john.smith@example.com" }, [byName, unrelated, byEmail]);
+    expect(matches.map(match => match.lead.id)).toEqual(["by-email", "by-name"]);
+  });
+});
+
+describe("buildDuplicateIndex", () => {
+  it("finds rows added after it was built", () => {
+    const index = buildDuplicateIndex([lead()]);
+    index.add(lead({ id: "lead-2", first_name: "Mary", last_name: "Jones", email: "mary@example.com", phone: null }));
+
+    expect(index.find({ first_name: "Mary", last_name: "Jones", email: "m.jones@example.org" }).map(match => match.lead.id))
+      .toEqual(["lead-2"]);
+  });
+
+  it("scores each candidate once even when several keys point at it", () => {
+    const index = buildDuplicateIndex([lead()]);
+    expect(index.find({ first_name: "John", last_name: "Smith", email: "john.smith@example.com", phone: "+15552010123" }))
+      .toHaveLength(1);
+  });
+});
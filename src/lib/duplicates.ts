@@ -0,0 +1,217 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type DuplicateCandidate = Pick<Tables<'buyer_leads'>, 'id' | 'first_name' | 'last_name' | 'email' | 'phone'>;
+
+export interface DuplicateInput {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone?: string | null;
+}
+
+export interface DuplicateMatch {
+  lead: DuplicateCandidate;
+  // 0-100; see possibleDuplicateScore and likelyDuplicateScore
+  score: number;
+  reasons: string[];
+}
+
+// A matching name alone is enough to ask, since two buyers rarely share one; a shared email or phone makes
+// it likely, and both together (or either with the name) is all but certain.
+export const possibleDuplicateScore = 35;
+export const likelyDuplicateScore = 60;
+
+const emailWeight = 60;
+const phoneWeight = 50;
+const nameWeight = 40;
+const minNameSimilarity = 0.85;
+
+const gmailDomains = ['gmail.com', 'googlemail.com'];
+
+// Mirrors public.normalize_email in the database: case and +tags don't make a different person, and Gmail
+// ignores dots in the mailbox name
+export const normalizeEmail = (email: string) => {
+  const address = email.trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  if (at < 0) return address;
+
+  const mailbox = address.slice(0, at).split('+')[0];
+  const domain = address.slice(at + 1);
+  return gmailDomains.includes(domain) ? `${mailbox.replace(/\./g, '')}@gmail.com` : `${mailbox}@${domain}`;
+};
+
+// Mirrors public.phone_key. Phones are stored in E.164, but leads that predate it may still hold free text.
+// Comparing the last ten digits lines up "+1 555 201 0123" with "(555) 201-0123" without matching short
+// fragments.
+const phoneKey = (phone: string | null | undefined) => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+};
+
+const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+
+// Jaro-Winkler: forgiving of typos and transpositions, and weighted towards names that start the same
+const nameSimilarity = (a: string, b: string) => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Compares first and last names separately and takes the weaker of the two, so "John Smith" and
+// "John Smyth" are close but "John Smith" and "Jane Smith" are not. Names entered the wrong way round
+// count too.
+const fullNameSimilarity = (input: DuplicateInput, lead: DuplicateCandidate) => {
+  const first = normalizeName(input.first_name);
+  const last = normalizeName(input.last_name);
+  const leadFirst = normalizeName(lead.first_name);
+  const leadLast = normalizeName(lead.last_name);
+
+  return Math.max(
+    Math.min(nameSimilarity(first, leadFirst), nameSimilarity(last, leadLast)),
+    Math.min(nameSimilarity(first, leadLast), nameSimilarity(last, leadFirst))
+  );
+};
+
+export const scoreDuplicate = (input: DuplicateInput, lead: DuplicateCandidate): DuplicateMatch => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (input.email && lead.email && normalizeEmail(input.email) === normalizeEmail(lead.email)) {
+    score += emailWeight;
+    reasons.push('Same email');
+  }
+
+  const phone = phoneKey(input.phone);
+  if (phone && phone === phoneKey(lead.phone)) {
+    score += phoneWeight;
+    reasons.push('Same phone');
+  }
+
+  const similarity = fullNameSimilarity(input, lead);
+  if (similarity >= minNameSimilarity) {
+    score += Math.round(nameWeight * similarity);
+    reasons.push(similarity === 1 ? 'Same name' : `Similar name (${Math.round(similarity * 100)}%)`);
+  }
+
+  return { lead, score: Math.min(score, 100), reasons };
+};
+
+export const findDuplicates = (input: DuplicateInput, candidates: DuplicateCandidate[]) =>
+  candidates
+    .map(lead => scoreDuplicate(input, lead))
+    .filter(match => match.score >= possibleDuplicateScore)
+    .sort((a, b) => b.score - a.score);
+
+export const isLikelyDuplicate = (match: DuplicateMatch) => match.score >= likelyDuplicateScore;
+
+// Rows per find_duplicate_candidates call. It returns at most ten candidates per lead, so a batch stays
+// well inside the API's row limit.
+const candidateBatchSize = 50;
+
+// Scores each lead against the existing leads the database picks out as plausible duplicates: anything
+// sharing the normalised email or phone, or with a surname close to one of the names. Pass excludeId to
+// leave out the lead being edited.
+export const fetchDuplicates = async (inputs: DuplicateInput[], excludeId?: string) => {
+  const results: DuplicateMatch[][] = [];
+
+  for (let start = 0; start < inputs.length; start += candidateBatchSize) {
+    const batch = inputs.slice(start, start + candidateBatchSize);
+    const { data, error } = await supabase.rpc('find_duplicate_candidates', {
+      leads: batch.map(input => ({
+        first_name: input.first_name,
+        last_name: input.last_name,
+        email: input.email,
+        phone: input.phone ?? null,
+        exclude_id: excludeId ?? null,
+      })),
+    });
+
+    if (error) throw error;
+
+    batch.forEach((input, index) => {
+      const candidates: DuplicateCandidate[] = (data || [])
+        .filter(candidate => candidate.input_index === index)
+        .map(({ id, first_name, last_name, email, phone }) => ({ id, first_name, last_name, email, phone }));
+      results.push(findDuplicates(input, candidates));
+    });
+  }
+
+  return results;
+};
+
+export interface DuplicateIndex {
+  add: (lead: DuplicateCandidate) => void;
+  find: (input: DuplicateInput) => DuplicateMatch[];
+}
+
+const nameBlocks = (first: string, last: string) =>
+  [normalizeName(first), normalizeName(last)].filter(Boolean).map(name => `name:${name[0]}`);
+
+// In-memory lookup for the rows of an import file, so a buyer listed twice in the same file is caught.
+// Rows are bucketed by email, phone and name initials so each is only scored against rows it could
+// plausibly match.
+export const buildDuplicateIndex = (candidates: DuplicateCandidate[]): DuplicateIndex => {
+  const buckets = new Map<string, DuplicateCandidate[]>();
+
+  const keysFor = (input: DuplicateInput) => {
+    const phone = phoneKey(input.phone);
+    return [
+      `email:${normalizeEmail(input.email)}`,
+      ...(phone ? [`phone:${phone}`] : []),
+      ...nameBlocks(input.first_name, input.last_name),
+    ];
+  };
+
+  const add = (lead: DuplicateCandidate) => {
+    new Set(keysFor(lead)).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(lead);
+      else buckets.set(key, [lead]);
+    });
+  };
+
+  const find = (input: DuplicateInput) => {
+    const pool = new Set<DuplicateCandidate>();
+    keysFor(input).forEach(key => buckets.get(key)?.forEach(lead => pool.add(lead)));
+    return findDuplicates(input, Array.from(pool));
+  };
+
+  candidates.forEach(add);
+  return { add, find };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { checkEmailQuality, getEmailQualityFlags } from "@/lib/emailQuality";
+
+describe("checkEmailQuality", () => {
+  it("passes ordinary addresses", () => {
+    expect(checkEmailQuality("jane.doe@gmail.com")).toEqual({ issues: [], suggestion: undefined });
+    expect(checkEmailQuality("jane@acme-realty.com").issues).toEqual([]);
+  });
+
+  it("suggests the common domain a typo is one edit away from", () => {
+    const result = checkEmailQuality("Jane@gmial.com");
+    expect(result.issues.map(issue => issue.flag)).toEqual(["email_typo"]);
+    // The mailbox keeps the case it was typed in
+    expect(result.suggestion).toBe("Jane@gmail.com");
+  });
+
+  it("counts swapped neighbours as a single edit", () => {
+    expect(checkEmailQuality("jane@hotmial.com").suggestion).toBe("jane@hotmail.com");
+  });
+
+  it("allows two edits only on longer domains", () => {
+    expect(checkEmailQuality("jane@outlokk.cm").suggestion).toBe("jane@outlook.com");
+    expect(checkEmailQuality("jane@gmx.de").suggestion).toBeUndefined();
+  });
+
+  it("flags disposable domains and their subdomains", () => {
+    expect(getEmailQualityFlags("x@mailinator.com")).toEqual(["email_disposable"]);
+    expect(getEmailQualityFlags("x@inbox.mailinator.com")).toEqual(["email_disposable"]);
+  });
+
+  it("flags role mailboxes, ignoring +tags", () => {
+    expect(getEmailQualityFlags("sales+leads@acme.com")).toEqual(["email_role"]);
+    expect(getEmailQualityFlags("salesperson@acme.com")).toEqual([]);
+  });
+
+  it("leaves malformed and missing addresses to the schema", () => {
+    expect(getEmailQualityFlags("@gmial.com")).toEqual([]);
+    expect(getEmailQualityFlags("jane@")).toEqual([]);
+    expect(getEmailQualityFlags(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { disposableDomains } from "@/lib/disposableDomains";
+import { dataQualityFlags } from "@/lib/validations";
+
+export type DataQualityFlag = typeof dataQualityFlags[number];
+
+export const dataQualityFlagLabels: Record<DataQualityFlag, string> = {
+  email_typo: 'Possible email typo',
+  email_disposable: 'Disposable email',
+  email_role: 'Role email address',
+};
+
+export const formatDataQualityFlags = (flags: string[]) =>
+  flags.map(flag => dataQualityFlagLabels[flag as DataQualityFlag] ?? flag).join(', ');
+
+export interface EmailQualityIssue {
+  flag: DataQualityFlag;
+  message: string;
+}
+
+export interface EmailQuality {
+  issues: EmailQualityIssue[];
+  // The address with its domain corrected, when the domain looks like a typo of a common one
+  suggestion?: string;
+}
+
+// Domains most buyer emails end up at. A domain one or two keystrokes away from one of these is
+// almost always a typo rather than a real mail server.
+const commonDomains = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'yahoo.co.uk',
+  'ymail.com',
+  'hotmail.com',
+  'hotmail.co.uk',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'aol.com',
+  'protonmail.com',
+  'proton.me',
+  'gmx.com',
+  'mail.com',
+  'zoho.com',
+  'comcast.net',
+  'verizon.net',
+  'att.net',
+  'sbcglobal.net',
+  'cox.net',
+];
+
+// Shared inboxes rather than a person, so replies tend to go unanswered
+const roleLocalParts = new Set([
+  'accounts',
+  'admin',
+  'billing',
+  'careers',
+  'contact',
+  'enquiries',
+  'hello',
+  'help',
+  'hr',
+  'info',
+  'inquiries',
+  'jobs',
+  'marketing',
+  'noreply',
+  'no-reply',
+  'office',
+  'postmaster',
+  'sales',
+  'service',
+  'support',
+  'team',
+  'webmaster',
+]);
+
+// Edit distance that counts swapped neighbours as one edit, so "gmial" is one step from "gmail"
+const typoDistance = (a: string, b: string) => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+const suggestDomain = (domain: string) => {
+  if (commonDomains.includes(domain)) return undefined;
+
+  // Short domains get less slack: two edits are enough to turn one real short domain into another
+  const maxDistance = domain.length > 9 ? 2 : 1;
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  commonDomains.forEach(candidate => {
+    const distance = typoDistance(domain, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+
+  return bestDistance <= maxDistance ? best : undefined;
+};
+
+const isDisposable = (domain: string) => {
+  const labels = domain.split('.');
+  return labels.some((_, index) => disposableDomains.has(labels.slice(index).join('.')));
+};
+
+// Offline checks only: nothing here contacts a mail server. Returns no issues for addresses that
+// aren't well-formed enough to split, which the schema's own email check already reports.
+export const checkEmailQuality = (email: string | null | undefined): EmailQuality => {
+  const address = email?.trim().toLowerCase() || '';
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || at === address.length - 1) return { issues: [] };
+
+  const localPart = address.slice(0, at);
+  const domain = address.slice(at + 1);
+  const issues: EmailQualityIssue[] = [];
+
+  const suggestedDomain = suggestDomain(domain);
+  const suggestion = suggestedDomain ? `${email?.trim().slice(0, at)}@${suggestedDomain}` : undefined;
+  if (suggestion) {
+    issues.push({ flag: 'email_typo', message: `Did you mean ${suggestion}?` });
+  }
+
+  if (isDisposable(domain)) {
+    issues.push({ flag: 'email_disposable', message: `${domain} is a disposable email provider` });
+  }
+
+  // sales+leads@ is still the sales@ inbox
+  const mailbox = localPart.split('+')[0];
+  if (roleLocalParts.has(mailbox)) {
+    issues.push({ flag: 'email_role', message: `${mailbox}@ is usually a shared inbox rather than a person` });
+  }
+
+  return { issues, suggestion };
+};
+
+export const getEmailQualityFlags = (email: string | null | undefined) =>
+  checkEmailQuality(email).issues.map(issue => issue.flag);
@@ -0,0 +1,60 @@
+import { endOfDay, endOfWeek, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { recordActivity } from "@/lib/activities";
+
+export type FollowUpBucket = 'overdue' | 'today' | 'this_week' | 'later';
+
+export const followUpBuckets: Array<{ value: FollowUpBucket; label: string }> = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'this_week', label: 'This Week' },
+  { value: 'later', label: 'Later' },
+];
+
+export const getFollowUpBucket = (followUp: Date, now = new Date()): FollowUpBucket => {
+  if (followUp < startOfDay(now)) return 'overdue';
+  if (followUp <= endOfDay(now)) return 'today';
+  if (followUp <= endOfWeek(now)) return 'this_week';
+  return 'later';
+};
+
+interface FollowUpCompletion {
+  leadId: string;
+  actorId: string;
+  completedFollowUp: string | null;
+  nextFollowUp: Date | null;
+  notes?: string;
+}
+
+export const completeFollowUp = async ({ leadId, actorId, completedFollowUp, nextFollowUp, notes }: FollowUpCompletion) => {
+  const contactedAt = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('buyer_leads')
+    .update({
+      last_contacted: contactedAt,
+      next_follow_up: nextFollowUp?.toISOString() || null,
+    })
+    .eq('id', leadId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  // RLS skips rows the user can't edit rather than raising, so no row back means nothing was saved
+  if (!data) throw new Error("You don't have permission to edit this lead");
+
+  await recordActivity({
+    leadId,
+    actorId,
+    type: 'follow_up_completed',
+    description: nextFollowUp
+      ? `Follow-up completed, next follow-up on ${nextFollowUp.toLocaleDateString()}`
+      : 'Follow-up completed, no further follow-up scheduled',
+    metadata: {
+      completed_follow_up: completedFollowUp,
+      contacted_at: contactedAt,
+      next_follow_up: nextFollowUp?.toISOString() || null,
+      notes: notes || null,
+    },
+  });
+};
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { recordActivity } from "@/lib/activities";
+import { InteractionFormData } from "@/lib/validations";
+
+export const channelLabels: Record<InteractionFormData['channel'], string> = {
+  call: 'Call',
+  email: 'Email',
+  meeting: 'Meeting',
+  text: 'Text',
+};
+
+export const outcomeLabels: Record<InteractionFormData['outcome'], string> = {
+  connected: 'Connected',
+  left_voicemail: 'Left voicemail',
+  no_answer: 'No answer',
+  replied: 'Replied',
+  no_response: 'No response',
+  appointment_set: 'Appointment set',
+  not_interested: 'Not interested',
+};
+
+interface InteractionLog {
+  leadId: string;
+  actorId: string;
+  interaction: InteractionFormData;
+}
+
+// Resolves to false when the interaction was logged but the lead's last_contacted could not be moved
+// forward, e.g. because the user may log against the lead but not edit it
+export const logInteraction = async ({ leadId, actorId, interaction }: InteractionLog) => {
+  const occurredAt = interaction.occurred_at.toISOString();
+
+  await recordActivity({
+    leadId,
+    actorId,
+    type: 'interaction_logged',
+    description: `${interaction.direction === 'inbound' ? 'Inbound' : 'Outbound'} ${channelLabels[interaction.channel].toLowerCase()}: ${outcomeLabels[interaction.outcome].toLowerCase()}`,
+    metadata: {
+      channel: interaction.channel,
+      direction: interaction.direction,
+      outcome: interaction.outcome,
+      duration_minutes: interaction.duration_minutes ?? null,
+      occurred_at: occurredAt,
+      notes: interaction.notes || null,
+    },
+  });
+
+  // Only move last_contacted forward, so back-dated entries don't hide a more recent contact
+  const { data: updatedLead, error: leadError } = await supabase
+    .from('buyer_leads')
+    .update({ last_contacted: occurredAt })
+    .eq('id', leadId)
+    .or(`last_contacted.is.null,last_contacted.lt."${occurredAt}"`)
+    .select('id')
+    .maybeSingle();
+
+  if (leadError) throw leadError;
+  if (updatedLead) return true;
+
+  // No row back is expected when there is already a later contact; otherwise RLS skipped the update
+  const { data: lead, error: selectError } = await supabase
+    .from('buyer_leads')
+    .select('last_contacted')
+    .eq('id', leadId)
+    .maybeSingle();
+
+  if (selectError) throw selectError;
+
+  return Boolean(lead?.last_contacted && new Date(lead.last_contacted) >= interaction.occurred_at);
+};
@@ -0,0 +1,68 @@
+import { leadColumnKeys } from "@/lib/validations";
+
+export type LeadColumnKey = typeof leadColumnKeys[number];
+
+// `sortColumn` is the buyer_leads column ordered on when the header is clicked; omitted for unsortable columns
+export const leadColumnConfig: Record<LeadColumnKey, { label: string; sortColumn?: string }> = {
+  name: { label: 'Name', sortColumn: 'last_name' },
+  email: { label: 'Email', sortColumn: 'email' },
+  phone: { label: 'Phone', sortColumn: 'phone' },
+  status: { label: 'Status', sortColumn: 'status' },
+  source: { label: 'Source', sortColumn: 'source' },
+  priority: { label: 'Priority', sortColumn: 'priority' },
+  lead_score: { label: 'Score', sortColumn: 'lead_score' },
+  budget: { label: 'Budget', sortColumn: 'budget_max' },
+  preferred_areas: { label: 'Areas' },
+  property_type: { label: 'Property Type', sortColumn: 'property_type' },
+  assigned_to: { label: 'Assigned To', sortColumn: 'assigned_to' },
+  last_contacted: { label: 'Last Contacted', sortColumn: 'last_contacted' },
+  next_follow_up: { label: 'Next Follow-up', sortColumn: 'next_follow_up' },
+  created_at: { label: 'Created', sortColumn: 'created_at' },
+  tags: { label: 'Tags' },
+};
+
+export interface LeadSort {
+  column: string;
+  ascending: boolean;
+}
+
+const sortableColumns = new Set(
+  Object.values(leadColumnConfig).map(config => config.sortColumn).filter(Boolean)
+);
+
+// Sorts are serialized as "column:direction" pairs joined by commas, e.g. "lead_score:desc,created_at:desc"
+export const parseSortParam = (value: string | null | undefined): LeadSort[] =>
+  (value || '')
+    .split(',')
+    .map(part => part.split(':'))
+    .filter(([column, direction]) => sortableColumns.has(column) && (direction === 'asc' || direction === 'desc'))
+    .map(([column, direction]) => ({ column, ascending: direction === 'asc' }));
+
+export const formatSortParam = (sorts: LeadSort[]) =>
+  sorts.map(sort => `${sort.column}:${sort.ascending ? 'asc' : 'desc'}`).join(',');
+
+// A plain click sorts by the column alone; a shift-click adds it to (or flips it within) the existing sort
+export const toggleSort = (sorts: LeadSort[], column: string, multi: boolean): LeadSort[] => {
+  const existing = sorts.find(sort => sort.column === column);
+
+  if (!multi) {
+    return [{ column, ascending: existing && sorts.length === 1 ? !existing.ascending : false }];
+  }
+
+  if (!existing) return [...sorts, { column, ascending: false }];
+  if (!existing.ascending) return sorts.map(sort => sort.column === column ? { ...sort, ascending: true } : sort);
+
+  const remaining = sorts.filter(sort => sort.column !== column);
+  return remaining.length > 0 ? remaining : sorts;
+};
+
+export const moveColumn = (columns: LeadColumnKey[], key: LeadColumnKey, offset: number) => {
+  const from = columns.indexOf(key);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= columns.length) return columns;
+
+  const next = [...columns];
+  next.splice(from, 1);
+  next.splice(to, 0, key);
+  return next;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { Area } from "@/lib/areas";
+import { buildLeadFilterExpression, countActiveConditions, quoteFilterValue } from "@/lib/leadFilters";
+import { AdvancedLeadFilter, LeadFilterCondition } from "@/lib/validations";
+
+// Area helpers share a module with their queries; the filters never touch the client
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const area = (id: string, name: string, parent_id: string | null = null) =>
+  ({ id, name, parent_id, kind: parent_id ? "neighborhood" : "city", aliases: [] }) as unknown as Area;
+
+const filterOf = (conditions: LeadFilterCondition[], match: 'all' | 'any' = 'all'): AdvancedLeadFilter =>
+  ({ match: 'all', groups: [{ match, conditions }] });
+
+describe("quoteFilterValue", () => {
+  it("quotes values and escapes quotes and backslashes", () => {
+    expect(quoteFilterValue('Smith, "Jr" (2)')).toBe('"Smith, \\"Jr\\" (2)"');
+    expect(quoteFilterValue("C:\\path")).toBe('"C:\\\\path"');
+  });
+});
+
+describe("buildLeadFilterExpression", () => {
+  it("is empty when no condition is complete", () => {
+    const filter = filterOf([{ field: "budget" }, { field: "custom", min: 3 }]);
+    expect(countActiveConditions(filter)).toBe(0);
+    expect(buildLeadFilterExpression(filter, "me", [])).toBeNull();
+  });
+
+  it("matches budget ranges that overlap, with open ends", () => {
+    expect(buildLeadFilterExpression(filterOf([{ field: "budget", min: 100, max: 200 }]), "me", [])).toBe(
+      "and(or(budget_min.not.is.null,budget_max.not.is.null),or(budget_max.gte.100,budget_max.is.null),or(budget_min.lte.200,budget_min.is.null))"
+    );
+  });
+
+  it("quotes user-typed values inside in() and array filters", () => {
+    expect(buildLeadFilterExpression(filterOf([{ field: "property_type", values: ["condo", "a,b"] }]), "me", []))
+      .toBe('property_type.in.("condo","a,b")');
+  });
+
+  it("expands a city to its neighborhoods", () => {
+    const areas = [area("c", "Springfield"), area("n", "Downtown", "c"), area("x", "Shelbyville")];
+    expect(buildLeadFilterExpression(filterOf([{ field: "preferred_areas", values: ["Springfield"] }]), "me", areas))
+      .toBe('preferred_areas.ov.{"Springfield","Downtown"}');
+  });
+
+  it("resolves 'me' to the current user and 'unassigned' to a null check", () => {
+    expect(buildLeadFilterExpression(filterOf([{ field: "assigned_to", values: ["unassigned", "me"] }]), "user-1", []))
+      .toBe('or(assigned_to.is.null,assigned_to.in.("user-1"))');
+  });
+
+  it("compares custom numbers as jsonb and other custom values as text", () => {
+    expect(buildLeadFilterExpression(filterOf([{ field: "custom", key: "lot_size", min: 2 }]), "me", []))
+      .toBe("custom_values->lot_size.gte.2");
+    expect(buildLeadFilterExpression(filterOf([{ field: "custom", key: "school", values: ["North"] }]), "me", []))
+      .toBe('custom_values->>school.in.("North")');
+  });
+
+  it("combines conditions by the group's match mode", () => {
+    const filter = filterOf([{ field: "bedrooms", min: 3 }, { field: "priority", min: 4 }], "any");
+    expect(buildLeadFilterExpression(filter, "me", [])).toBe("or(bedrooms.gte.3,priority.gte.4)");
+  });
+});
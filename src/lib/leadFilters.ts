@@ -0,0 +1,233 @@
+import { endOfDay, format, parse, startOfDay } from "date-fns";
+import { formatCurrency } from "@/lib/leads";
+import { CustomField, CustomFieldType } from "@/lib/customFields";
+import { Area, expandAreaNames } from "@/lib/areas";
+import { formatPropertyType, getPropertyAttribute } from "@/lib/propertyTypes";
+import { formatDataQualityFlags } from "@/lib/emailQuality";
+import {
+  AdvancedLeadFilter,
+  advancedLeadFilterSchema,
+  LeadFilterCondition,
+  leadFilterFields,
+} from "@/lib/validations";
+
+export type LeadFilterField = typeof leadFilterFields[number];
+
+// How a field is edited in the builder and translated into PostgREST filters
+export type LeadFilterKind = 'range' | 'minimum' | 'dates' | 'values';
+
+// Filter fields that apply to a particular custom field or property type attribute, named by the condition's key
+export type KeyedLeadFilterField = 'custom' | 'property_detail';
+
+export const isKeyedFilterField = (field: LeadFilterField): field is KeyedLeadFilterField =>
+  field === 'custom' || field === 'property_detail';
+
+// Keyed fields take their label and kind from the field or attribute definition instead
+export const leadFilterFieldConfig: Record<Exclude<LeadFilterField, KeyedLeadFilterField>, { label: string; kind: LeadFilterKind }> = {
+  budget: { label: 'Budget', kind: 'range' },
+  bedrooms: { label: 'Bedrooms', kind: 'minimum' },
+  bathrooms: { label: 'Bathrooms', kind: 'minimum' },
+  property_type: { label: 'Property Type', kind: 'values' },
+  preferred_areas: { label: 'Preferred Areas', kind: 'values' },
+  priority: { label: 'Priority', kind: 'range' },
+  created_at: { label: 'Created', kind: 'dates' },
+  next_follow_up: { label: 'Next Follow-up', kind: 'dates' },
+  assigned_to: { label: 'Assigned To', kind: 'values' },
+  tags: { label: 'Tags', kind: 'values' },
+  data_quality: { label: 'Data Quality', kind: 'values' },
+};
+
+export const customFieldFilterKinds: Record<CustomFieldType, LeadFilterKind> = {
+  text: 'values',
+  number: 'range',
+  date: 'dates',
+  select: 'values',
+  boolean: 'values',
+};
+
+// Keyed conditions only store the field key, so their kind is read off the values they hold
+export const getConditionKind = (condition: LeadFilterCondition): LeadFilterKind => {
+  if (!isKeyedFilterField(condition.field)) return leadFilterFieldConfig[condition.field].kind;
+  if (condition.from || condition.to) return 'dates';
+  if (condition.min !== undefined || condition.max !== undefined) return 'range';
+  return 'values';
+};
+
+export const emptyAdvancedFilter: AdvancedLeadFilter = { match: 'all', groups: [] };
+
+const filterDateFormat = 'yyyy-MM-dd';
+
+export const isConditionActive = (condition: LeadFilterCondition) => {
+  if (isKeyedFilterField(condition.field) && !condition.key) return false;
+
+  switch (getConditionKind(condition)) {
+    case 'range': return condition.min !== undefined || condition.max !== undefined;
+    case 'minimum': return condition.min !== undefined;
+    case 'dates': return Boolean(condition.from || condition.to);
+    case 'values': return Boolean(condition.values?.length);
+  }
+};
+
+export const countActiveConditions = (filter: AdvancedLeadFilter) =>
+  filter.groups.reduce((total, group) => total + group.conditions.filter(isConditionActive).length, 0);
+
+// Values are user-typed, so quote them to keep commas and parentheses from breaking the filter syntax
+export const quoteFilterValue = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+const combine = (operator: 'and' | 'or', parts: string[]) =>
+  parts.length === 1 ? parts[0] : `${operator}(${parts.join(',')})`;
+
+const conditionToFilter = (condition: LeadFilterCondition, userId: string, areas: Area[]): string | null => {
+  if (!isConditionActive(condition)) return null;
+
+  const { field, key, min, max, from, to, values = [] } = condition;
+  const parts: string[] = [];
+
+  switch (field) {
+    case 'budget':
+      // A lead matches when its budget range overlaps the requested one; an open end overlaps anything
+      parts.push('or(budget_min.not.is.null,budget_max.not.is.null)');
+      if (min !== undefined) parts.push(`or(budget_max.gte.${min},budget_max.is.null)`);
+      if (max !== undefined) parts.push(`or(budget_min.lte.${max},budget_min.is.null)`);
+      break;
+    case 'bedrooms':
+    case 'bathrooms':
+      parts.push(`${field}.gte.${min}`);
+      break;
+    case 'priority':
+      if (min !== undefined) parts.push(`priority.gte.${min}`);
+      if (max !== undefined) parts.push(`priority.lte.${max}`);
+      break;
+    case 'created_at':
+    case 'next_follow_up':
+      if (from) parts.push(`${field}.gte.${quoteFilterValue(startOfDay(parse(from, filterDateFormat, new Date())).toISOString())}`);
+      if (to) parts.push(`${field}.lte.${quoteFilterValue(endOfDay(parse(to, filterDateFormat, new Date())).toISOString())}`);
+      break;
+    case 'property_type':
+      parts.push(`property_type.in.(${values.map(quoteFilterValue).join(',')})`);
+      break;
+    case 'preferred_areas':
+      // A city also matches leads that only named one of its neighborhoods or zip codes
+      parts.push(`preferred_areas.ov.{${expandAreaNames(values, areas).map(quoteFilterValue).join(',')}}`);
+      break;
+    case 'tags':
+      // tag_ids is a computed field on buyer_leads; a lead matches when it carries any of the tags
+      parts.push(`tag_ids.ov.{${values.map(quoteFilterValue).join(',')}}`);
+      break;
+    case 'data_quality':
+      parts.push(`data_quality_flags.ov.{${values.map(quoteFilterValue).join(',')}}`);
+      break;
+    case 'custom':
+    case 'property_detail': {
+      const column = field === 'custom' ? 'custom_values' : 'property_details';
+      // Numbers compare as jsonb (->) so 10 sorts after 9; dates and choices compare as text (->>)
+      if (min !== undefined) parts.push(`${column}->${key}.gte.${min}`);
+      if (max !== undefined) parts.push(`${column}->${key}.lte.${max}`);
+      if (from) parts.push(`${column}->>${key}.gte.${quoteFilterValue(from)}`);
+      if (to) parts.push(`${column}->>${key}.lte.${quoteFilterValue(to)}`);
+      if (values.length > 0) parts.push(`${column}->>${key}.in.(${values.map(quoteFilterValue).join(',')})`);
+      break;
+    }
+    case 'assigned_to': {
+      const ids = values
+        .filter(value => value !== 'unassigned')
+        .map(value => value === 'me' ? userId : value);
+      const options: string[] = [];
+      if (values.includes('unassigned')) options.push('assigned_to.is.null');
+      if (ids.length > 0) options.push(`assigned_to.in.(${ids.map(quoteFilterValue).join(',')})`);
+      parts.push(combine('or', options));
+      break;
+    }
+  }
+
+  return combine('and', parts);
+};
+
+// The filter methods shared by a buyer_leads select and the search_leads RPC, which returns buyer_leads
+// rows, so one set of filters can be applied to either before the columns are picked
+export interface LeadFilterable<Self> {
+  filter(column: string, operator: string, value: unknown): Self;
+  or(filters: string): Self;
+}
+
+// Compiles the filter tree into a single PostgREST logic expression for use with `query.or()`
+export const buildLeadFilterExpression = (filter: AdvancedLeadFilter, userId: string, areas: Area[]) => {
+  const groups = filter.groups
+    .map(group => {
+      const conditions = group.conditions
+        .map(condition => conditionToFilter(condition, userId, areas))
+        .filter((part): part is string => part !== null);
+      return conditions.length > 0 ? combine(group.match === 'all' ? 'and' : 'or', conditions) : null;
+    })
+    .filter((part): part is string => part !== null);
+
+  return groups.length > 0 ? combine(filter.match === 'all' ? 'and' : 'or', groups) : null;
+};
+
+const formatFilterDate = (value: string) => format(parse(value, filterDateFormat, new Date()), 'MMM d, yyyy');
+
+export const describeCondition = (
+  condition: LeadFilterCondition,
+  getMemberName: (userId: string | null) => string,
+  getTagName: (tagId: string) => string,
+  getCustomField: (key: string) => CustomField | undefined,
+) => {
+  const { field, key = '', min, max, from, to, values = [] } = condition;
+  const definition = field === 'custom' ? getCustomField(key)
+    : field === 'property_detail' ? getPropertyAttribute(key)
+    : undefined;
+  const label = isKeyedFilterField(field) ? definition?.label ?? key : leadFilterFieldConfig[field].label;
+  const formatNumber = field === 'budget' ? formatCurrency : (value: number) => value.toString();
+
+  switch (getConditionKind(condition)) {
+    case 'range':
+      if (min !== undefined && max !== undefined) return `${label}: ${formatNumber(min)} - ${formatNumber(max)}`;
+      if (min !== undefined) return `${label}: ${formatNumber(min)}+`;
+      return `${label}: up to ${formatNumber(max)}`;
+    case 'minimum':
+      return `${label}: ${min}+`;
+    case 'dates':
+      if (from && to) return `${label}: ${formatFilterDate(from)} - ${formatFilterDate(to)}`;
+      if (from) return `${label}: from ${formatFilterDate(from)}`;
+      return `${label}: until ${formatFilterDate(to)}`;
+    case 'values': {
+      let names = values;
+      if (field === 'assigned_to') {
+        names = values.map(value => value === 'me' ? 'Me' : getMemberName(value === 'unassigned' ? null : value));
+      } else if (field === 'tags') {
+        names = values.map(getTagName);
+      } else if (field === 'property_type') {
+        names = values.map(formatPropertyType);
+      } else if (field === 'data_quality') {
+        names = [formatDataQualityFlags(values)];
+      } else if (definition?.field_type === 'boolean') {
+        names = values.map(value => value === 'true' ? 'Yes' : 'No');
+      }
+      return `${label}: ${names.join(', ')}`;
+    }
+  }
+};
+
+export const removeCondition = (filter: AdvancedLeadFilter, groupIndex: number, conditionIndex: number): AdvancedLeadFilter => ({
+  ...filter,
+  groups: filter.groups
+    .map((group, i) => i === groupIndex
+      ? { ...group, conditions: group.conditions.filter((_, j) => j !== conditionIndex) }
+      : group)
+    .filter(group => group.conditions.length > 0),
+});
+
+export const parseAdvancedFilter = (value: unknown): AdvancedLeadFilter => {
+  const result = advancedLeadFilterSchema.safeParse(value);
+  return result.success ? result.data : emptyAdvancedFilter;
+};
+
+export const parseAdvancedFilterParam = (param: string | null) => {
+  if (!param) return emptyAdvancedFilter;
+
+  try {
+    return parseAdvancedFilter(JSON.parse(param));
+  } catch {
+    return emptyAdvancedFilter;
+  }
+};
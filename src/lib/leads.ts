@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+import { ActivityInput, recordActivity } from "@/lib/activities";
+
+export type LeadStatus = Enums<'lead_status'>;
+
+export const leadStatuses: Array<{ value: LeadStatus; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'contacted', label: 'Contacted' },
+  { value: 'qualified', label: 'Qualified' },
+  { value: 'not_qualified', label: 'Not Qualified' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'new': return "blue";
+    case 'contacted': return "yellow";
+    case 'qualified': return "green";
+    case 'not_qualified': return "gray";
+    case 'closed': return "purple";
+    default: return "default";
+  }
+};
+
+export const getPriorityColor = (priority: number) => {
+  switch (priority) {
+    case 5: return "destructive";
+    case 4: return "destructive";
+    case 3: return "default";
+    case 2: return "secondary";
+    case 1: return "outline";
+    default: return "default";
+  }
+};
+
+export const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+export const formatBudget = (min: number | null, max: number | null) => {
+  if (min && max) return `${formatCurrency(min)} - ${formatCurrency(max)}`;
+  if (min) return `${formatCurrency(min)}+`;
+  if (max) return `Up to ${formatCurrency(max)}`;
+  return 'N/A';
+};
+
+interface StatusChange {
+  leadId: string;
+  actorId: string;
+  from: LeadStatus | null;
+  to: LeadStatus;
+}
+
+const getStatusLabel = (status: LeadStatus | null) =>
+  leadStatuses.find(s => s.value === status)?.label || 'None';
+
+export const statusChangeActivity = ({ leadId, actorId, from, to }: StatusChange): ActivityInput<'status_changed'> => ({
+  leadId,
+  actorId,
+  type: 'status_changed',
+  description: `Status changed from ${getStatusLabel(from)} to ${getStatusLabel(to)}`,
+  metadata: { from, to },
+});
+
+export const changeLeadStatus = async (change: StatusChange) => {
+  const { data, error } = await supabase
+    .from('buyer_leads')
+    .update({ status: change.to })
+    .eq('id', change.leadId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw error;
+  // RLS skips rows the user can't edit rather than raising, so no row back means nothing was saved
+  if (!data) throw new Error("You don't have permission to edit this lead");
+
+  await recordActivity(statusChangeActivity(change));
+};
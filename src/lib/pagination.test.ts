@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildKeysetFilter,
+  formatLeadCount,
+  getCursorValues,
+  parseCursorParam,
+  withTiebreaker,
+} from "@/lib/pagination";
+
+// Filter quoting comes from a module that also imports the client; nothing here queries
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const newestFirst = withTiebreaker([{ column: "created_at", ascending: false }]);
+
+describe("withTiebreaker", () => {
+  it("adds id as the last sort key once", () => {
+    expect(newestFirst).toEqual([
+      { column: "created_at", ascending: false },
+      { column: "id", ascending: true },
+    ]);
+    expect(withTiebreaker(newestFirst)).toEqual(newestFirst);
+  });
+});
+
+describe("getCursorValues", () => {
+  it("takes the sort columns of a row, with missing values as null", () => {
+    expect(getCursorValues({ id: "b", created_at: undefined }, newestFirst)).toEqual([null, "b"]);
+  });
+});
+
+describe("buildKeysetFilter", () => {
+  it("seeks past the cursor, letting nulls of each column follow", () => {
+    expect(buildKeysetFilter(newestFirst, ["2025-01-01T00:00:00Z", "b"])).toBe(
+      'or(created_at.lt."2025-01-01T00:00:00Z",created_at.is.null),'
+      + 'and(created_at.eq."2025-01-01T00:00:00Z",or(id.gt."b",id.is.null))'
+    );
+  });
+
+  it("only moves on through later columns once the cursor is in the nulls", () => {
+    expect(buildKeysetFilter(newestFirst, [null, "b"])).toBe('and(created_at.is.null,or(id.gt."b",id.is.null))');
+  });
+
+  it("quotes values so commas and parentheses don't break the filter", () => {
+    const byName = withTiebreaker([{ column: "last_name", ascending: true }]);
+    expect(buildKeysetFilter(byName, ["O'Brien, (Jr)", "b"])).toContain('last_name.gt."O\'Brien, (Jr)"');
+  });
+});
+
+describe("parseCursorParam", () => {
+  it("accepts keyset and offset cursors", () => {
+    expect(parseCursorParam('{"after":["2025-01-01",null,"b"]}')).toEqual({ after: ["2025-01-01", null, "b"] });
+    expect(parseCursorParam('{"offset":50}')).toEqual({ offset: 50 });
+  });
+
+  it("ignores anything else", () => {
+    expect(parseCursorParam(null)).toBeNull();
+    expect(parseCursorParam("not json")).toBeNull();
+    expect(parseCursorParam('{"offset":-1}')).toBeNull();
+  });
+});
+
+describe("formatLeadCount", () => {
+  it("marks counts past the exact limit as approximate", () => {
+    expect(formatLeadCount(1000)).toBe("1,000");
+    expect(formatLeadCount(12345)).toBe("about 12,345");
+  });
+});
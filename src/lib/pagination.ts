@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { quoteFilterValue } from "@/lib/leadFilters";
+import { LeadSort } from "@/lib/leadColumns";
+
+export const pageSizeOptions = [10, 25, 50, 100] as const;
+
+// Rows fetched per request while infinite scrolling
+export const infiniteScrollBatchSize = 50;
+
+// An estimated count is exact up to the API's row limit and a query planner estimate beyond it
+const exactCountLimit = 1000;
+
+export const formatLeadCount = (count: number) =>
+  count > exactCountLimit ? `about ${count.toLocaleString()}` : count.toLocaleString();
+
+type CursorValue = string | number | boolean | null;
+
+const pageCursorSchema = z.union([
+  z.object({ after: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])) }),
+  z.object({ offset: z.number().int().min(0) }),
+]);
+
+// Where a page starts: keyset values of the previous page's last row, or an offset for
+// relevance-ranked search results, which have no sortable key to seek on
+export type PageCursor = z.infer<typeof pageCursorSchema>;
+
+// A unique last sort key makes every position in the ordering distinct, so no row is skipped or repeated
+export const withTiebreaker = (sorts: LeadSort[]): LeadSort[] =>
+  sorts.some(sort => sort.column === 'id') ? sorts : [...sorts, { column: 'id', ascending: true }];
+
+export const getCursorValues = (row: Record<string, unknown>, sorts: LeadSort[]): CursorValue[] =>
+  sorts.map(sort => (row[sort.column] ?? null) as CursorValue);
+
+const filterValue = (value: CursorValue) => quoteFilterValue(String(value));
+
+// Rows strictly after the cursor in (c1, c2, ...) order, matching `order(..., { nullsFirst: false })`:
+// (c1 after v1) OR (c1 = v1 AND c2 after v2) OR ...
+export const buildKeysetFilter = (sorts: LeadSort[], values: CursorValue[]) => {
+  const clauses = sorts.flatMap((sort, i) => {
+    const value = values[i] ?? null;
+
+    // Nulls sort last in both directions, so nothing comes after a null except via later columns
+    if (value === null) return [];
+
+    const equalities = sorts.slice(0, i).map((previous, j) =>
+      values[j] === null || values[j] === undefined
+        ? `${previous.column}.is.null`
+        : `${previous.column}.eq.${filterValue(values[j])}`
+    );
+    const after = `or(${sort.column}.${sort.ascending ? 'gt' : 'lt'}.${filterValue(value)},${sort.column}.is.null)`;
+
+    return [equalities.length > 0 ? `and(${[...equalities, after].join(',')})` : after];
+  });
+
+  return clauses.join(',');
+};
+
+export const parseCursorParam = (param: string | null): PageCursor | null => {
+  if (!param) return null;
+
+  try {
+    const result = pageCursorSchema.safeParse(JSON.parse(param));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+};
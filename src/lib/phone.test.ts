@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { formatPhone, phoneSchema, toE164 } from "@/lib/phone";
+
+describe("toE164", () => {
+  it("reads national numbers in the default country", () => {
+    expect(toE164("(555) 201-0123")).toBe("+15552010123");
+    expect(toE164("555.201.0123")).toBe("+15552010123");
+  });
+
+  it("drops the North American trunk 1", () => {
+    expect(toE164("1 555 201 0123")).toBe("+15552010123");
+  });
+
+  it("rejects area codes and exchanges starting with 0 or 1", () => {
+    expect(toE164("155 201 0123")).toBeNull();
+    expect(toE164("555 101 0123")).toBeNull();
+  });
+
+  it("reads national numbers of the given country and drops the trunk 0", () => {
+    expect(toE164("020 7946 0958", "GB")).toBe("+442079460958");
+    expect(toE164("0412 345 678", "AU")).toBe("+61412345678");
+  });
+
+  it("accepts international numbers with +, 00 and the North American 011 prefix", () => {
+    expect(toE164("+44 20 7946 0958")).toBe("+442079460958");
+    expect(toE164("0044 20 7946 0958", "GB")).toBe("+442079460958");
+    expect(toE164("011 44 20 7946 0958")).toBe("+442079460958");
+  });
+
+  it("keeps the trunk 0 out when it is written in parentheses", () => {
+    expect(toE164("+44 (0)20 7946 0958")).toBe("+442079460958");
+  });
+
+  it("prefers the longest calling code", () => {
+    expect(toE164("+353 1 234 5678")).toBe("+35312345678");
+  });
+
+  it("only checks the length of countries it doesn't know", () => {
+    expect(toE164("+81 3 1234 5678")).toBe("+81312345678");
+    expect(toE164("+81 3")).toBeNull();
+  });
+
+  it("rejects letters and wrong lengths", () => {
+    expect(toE164("call me")).toBeNull();
+    expect(toE164("555-0123")).toBeNull();
+    expect(toE164("+44 20 7946")).toBeNull();
+  });
+});
+
+describe("formatPhone", () => {
+  it("formats North American numbers", () => {
+    expect(formatPhone("+15552010123")).toBe("+1 (555) 201-0123");
+  });
+
+  it("groups other known countries, with leftover digits in the last group", () => {
+    expect(formatPhone("+447700900123")).toBe("+44 7700 900123");
+  });
+
+  it("shows anything that isn't E.164 as entered", () => {
+    expect(formatPhone("555-0123 ext 4")).toBe("555-0123 ext 4");
+    expect(formatPhone(null)).toBe("");
+  });
+});
+
+describe("phoneSchema", () => {
+  it("transforms valid input to E.164 and treats blanks as missing", () => {
+    expect(phoneSchema().parse("(555) 201-0123")).toBe("+15552010123");
+    expect(phoneSchema().parse("  ")).toBeUndefined();
+  });
+
+  it("reports invalid numbers", () => {
+    expect(phoneSchema("GB").safeParse("12345").success).toBe(false);
+  });
+});
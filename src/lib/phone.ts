@@ -0,0 +1,124 @@
+import { z } from "zod";
+
+export const phoneCountries = ['US', 'CA', 'GB', 'IE', 'AU', 'NZ', 'IN', 'DE', 'FR', 'ES', 'MX'] as const;
+
+export type PhoneCountry = typeof phoneCountries[number];
+
+export const defaultPhoneCountry: PhoneCountry = 'US';
+
+interface PhoneCountryInfo {
+  name: string;
+  callingCode: string;
+  // Digits after the calling code, without the trunk prefix
+  nationalLengths: number[];
+  // Dialled before national numbers at home but dropped internationally, e.g. the 0 in 020 7946 0958
+  trunkPrefix?: string;
+  // Stricter check than length alone where the numbering plan allows it
+  pattern?: RegExp;
+  // How the national number is split up for display; leftover digits join the last group
+  groups: number[];
+}
+
+// North American numbers can't start an area code or exchange with 0 or 1
+const nanpPattern = /^[2-9]\d{2}[2-9]\d{6}$/;
+
+export const phoneCountryInfo: Record<PhoneCountry, PhoneCountryInfo> = {
+  US: { name: 'United States', callingCode: '1', nationalLengths: [10], trunkPrefix: '1', pattern: nanpPattern, groups: [3, 3, 4] },
+  CA: { name: 'Canada', callingCode: '1', nationalLengths: [10], trunkPrefix: '1', pattern: nanpPattern, groups: [3, 3, 4] },
+  GB: { name: 'United Kingdom', callingCode: '44', nationalLengths: [9, 10], trunkPrefix: '0', groups: [4, 6] },
+  IE: { name: 'Ireland', callingCode: '353', nationalLengths: [7, 8, 9], trunkPrefix: '0', groups: [2, 3, 4] },
+  AU: { name: 'Australia', callingCode: '61', nationalLengths: [9], trunkPrefix: '0', groups: [3, 3, 3] },
+  NZ: { name: 'New Zealand', callingCode: '64', nationalLengths: [8, 9, 10], trunkPrefix: '0', groups: [2, 3, 4] },
+  IN: { name: 'India', callingCode: '91', nationalLengths: [10], trunkPrefix: '0', groups: [5, 5] },
+  DE: { name: 'Germany', callingCode: '49', nationalLengths: [6, 7, 8, 9, 10, 11], trunkPrefix: '0', groups: [3, 4, 4] },
+  FR: { name: 'France', callingCode: '33', nationalLengths: [9], trunkPrefix: '0', groups: [1, 2, 2, 2, 2] },
+  ES: { name: 'Spain', callingCode: '34', nationalLengths: [9], groups: [3, 3, 3] },
+  MX: { name: 'Mexico', callingCode: '52', nationalLengths: [10], groups: [2, 4, 4] },
+};
+
+const isValidNational = (info: PhoneCountryInfo, national: string) =>
+  info.pattern ? info.pattern.test(national) : info.nationalLengths.includes(national.length) && !national.startsWith('0');
+
+const stripTrunkPrefix = (info: PhoneCountryInfo, national: string) =>
+  info.trunkPrefix && national.startsWith(info.trunkPrefix) && !isValidNational(info, national)
+    ? national.slice(info.trunkPrefix.length)
+    : national;
+
+// Longest calling code first so +353 isn't read as +3 followed by 53
+const findCountry = (digits: string) =>
+  Object.values(phoneCountryInfo)
+    .filter(info => digits.startsWith(info.callingCode))
+    .sort((a, b) => b.callingCode.length - a.callingCode.length)[0];
+
+// E.164 (+15552010123) for anything that reads as a valid number, null otherwise. Numbers without a
+// country code are read as national numbers of `country`; international ones ("+44 ...", "0044 ...") are
+// checked against their own country where it's one we know, and only for a plausible length otherwise.
+export const toE164 = (value: string, country: PhoneCountry = defaultPhoneCountry) => {
+  const trimmed = value.trim();
+  if (!/^\+?[\d\s().\-/]+$/.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+  const international = trimmed.startsWith('+') ? digits
+    : digits.startsWith('00') ? digits.slice(2)
+    : country === 'US' || country === 'CA' ? (digits.startsWith('011') ? digits.slice(3) : null)
+    : null;
+
+  if (international !== null) {
+    const info = findCountry(international);
+    if (!info) {
+      return /^[1-9]\d{7,14}$/.test(international) ? `+${international}` : null;
+    }
+
+    // "+44 (0)20 ..." keeps the trunk 0 once the parentheses are gone
+    const national = stripTrunkPrefix(info, international.slice(info.callingCode.length));
+    return isValidNational(info, national) ? `+${info.callingCode}${national}` : null;
+  }
+
+  const info = phoneCountryInfo[country];
+  const national = stripTrunkPrefix(info, digits);
+  return isValidNational(info, national) ? `+${info.callingCode}${national}` : null;
+};
+
+// "+15552010123" -> "+1 (555) 201-0123", "+447700900123" -> "+44 7700 900123". Anything that isn't
+// E.164 (numbers saved before normalisation) is shown as it was entered.
+export const formatPhone = (value: string | null | undefined) => {
+  if (!value) return '';
+  if (!/^\+\d+$/.test(value)) return value;
+
+  const digits = value.slice(1);
+  const info = findCountry(digits);
+  if (!info) return value;
+
+  const national = digits.slice(info.callingCode.length);
+  if (info.callingCode === '1' && national.length === 10) {
+    return `+1 (${national.slice(0, 3)}) ${national.slice(3, 6)}-${national.slice(6)}`;
+  }
+
+  const parts: string[] = [];
+  let rest = national;
+  info.groups.forEach((size, index) => {
+    if (!rest) return;
+    const take = index === info.groups.length - 1 ? rest.length : size;
+    parts.push(rest.slice(0, take));
+    rest = rest.slice(take);
+  });
+
+  return `+${info.callingCode} ${parts.join(' ')}`;
+};
+
+// Validates a phone input and hands back its E.164 form, so whatever parses with it is ready to store
+export const phoneSchema = (country: PhoneCountry = defaultPhoneCountry) =>
+  z.string().optional().transform((value, ctx) => {
+    if (!value?.trim()) return undefined;
+
+    const e164 = toE164(value, country);
+    if (!e164) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Enter a valid phone number, with a country code if it isn't a ${phoneCountryInfo[country].name} number`,
+      });
+      return z.NEVER;
+    }
+
+    return e164;
+  });
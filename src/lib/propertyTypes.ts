@@ -0,0 +1,106 @@
+import { Json } from "@/integrations/supabase/types";
+import { CustomFieldDefinition, getCustomValues } from "@/lib/customFields";
+import { propertyTypes } from "@/lib/validations";
+
+export type PropertyType = typeof propertyTypes[number];
+
+export const propertyTypeLabels: Record<PropertyType, string> = {
+  single_family: 'Single Family',
+  condo: 'Condo',
+  townhouse: 'Townhouse',
+  multi_family: 'Multi-Family',
+  land: 'Land',
+  mobile_home: 'Mobile Home',
+  other: 'Other',
+};
+
+export type PropertyAttribute = CustomFieldDefinition;
+
+const attribute = (
+  key: string,
+  label: string,
+  field_type: PropertyAttribute['field_type'],
+  options: string[] = [],
+): PropertyAttribute => ({ key, label, field_type, options, required: false });
+
+const maxHoaFee = attribute('max_hoa_fee', 'Max HOA Fee ($/month)', 'number');
+const minGarageSpaces = attribute('min_garage_spaces', 'Min Garage Spaces', 'number');
+
+// Keys are shared between types when they mean the same thing, so one filter covers every type that has them
+export const propertyTypeAttributes: Record<PropertyType, PropertyAttribute[]> = {
+  single_family: [attribute('min_lot_sqft', 'Min Lot Size (sq ft)', 'number'), minGarageSpaces],
+  condo: [maxHoaFee, attribute('pet_friendly', 'Pet-Friendly Building', 'boolean')],
+  townhouse: [maxHoaFee, minGarageSpaces],
+  multi_family: [attribute('min_units', 'Min Units', 'number'), attribute('owner_occupied', 'Owner Will Live On-Site', 'boolean')],
+  land: [
+    attribute('min_lot_acres', 'Min Lot Size (acres)', 'number'),
+    attribute('zoning', 'Zoning', 'select', ['Residential', 'Agricultural', 'Commercial', 'Mixed Use']),
+    attribute('needs_utilities', 'Utilities On-Site', 'boolean'),
+  ],
+  mobile_home: [attribute('max_lot_rent', 'Max Lot Rent ($/month)', 'number')],
+  other: [],
+};
+
+// Every attribute once, for the filter builder
+export const allPropertyAttributes = Object.values(propertyTypeAttributes)
+  .flat()
+  .filter((attr, index, attrs) => attrs.findIndex(other => other.key === attr.key) === index);
+
+export const getPropertyAttribute = (key: string) => allPropertyAttributes.find(attr => attr.key === key);
+
+export const isPropertyType = (value: string | null | undefined): value is PropertyType =>
+  propertyTypes.includes(value as PropertyType);
+
+export const formatPropertyType = (value: string | null | undefined) =>
+  isPropertyType(value) ? propertyTypeLabels[value] : value || 'N/A';
+
+// Kept in step with public.normalize_property_type, which converted the free-text values already stored
+const propertyTypeAliases: Record<string, PropertyType> = {
+  singlefamily: 'single_family',
+  singlefamilyhome: 'single_family',
+  singlefamilyhouse: 'single_family',
+  sfh: 'single_family',
+  house: 'single_family',
+  detached: 'single_family',
+  detachedhouse: 'single_family',
+  condo: 'condo',
+  condominium: 'condo',
+  apartment: 'condo',
+  flat: 'condo',
+  apt: 'condo',
+  townhouse: 'townhouse',
+  townhome: 'townhouse',
+  rowhouse: 'townhouse',
+  attached: 'townhouse',
+  multifamily: 'multi_family',
+  multifamilyhome: 'multi_family',
+  duplex: 'multi_family',
+  triplex: 'multi_family',
+  fourplex: 'multi_family',
+  quadplex: 'multi_family',
+  mfh: 'multi_family',
+  land: 'land',
+  lot: 'land',
+  vacantland: 'land',
+  acreage: 'land',
+  mobilehome: 'mobile_home',
+  manufacturedhome: 'mobile_home',
+  manufactured: 'mobile_home',
+  mobile: 'mobile_home',
+  other: 'other',
+};
+
+// "Single Family Home", "single_family" and "SFH" all map to single_family; undefined when nothing matches
+export const matchPropertyType = (value: string) =>
+  propertyTypeAliases[value.toLowerCase().replace(/[^a-z0-9]/g, '')];
+
+// Only the chosen type's attributes are saved, so switching type doesn't leave stale answers behind
+export const pickPropertyDetails = (propertyType: PropertyType | null | undefined, details: Json | Record<string, unknown> | undefined) => {
+  const values = getCustomValues(details as Json);
+
+  return Object.fromEntries(
+    (propertyType ? propertyTypeAttributes[propertyType] : [])
+      .filter(attr => values[attr.key] !== undefined && values[attr.key] !== null && values[attr.key] !== '')
+      .map(attr => [attr.key, values[attr.key]])
+  ) as Json;
+};
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { Json } from "@/integrations/supabase/types";
+
+// Mirrors the JSON returned by the lead_score_factors database function
+export const scoreFactorSchema = z.object({
+  signal: z.string(),
+  label: z.string(),
+  weight: z.number(),
+  value: z.number(),
+  points: z.number(),
+  detail: z.string(),
+});
+
+export type ScoreFactor = z.infer<typeof scoreFactorSchema>;
+
+export const parseScoreFactors = (factors: Json | null): ScoreFactor[] => {
+  const result = z.array(scoreFactorSchema).safeParse(factors ?? []);
+  return result.success ? result.data : [];
+};
+
+export const getScoreColor = (score: number) => {
+  if (score >= 70) return "bg-green-100 text-green-800 border-green-300";
+  if (score >= 40) return "bg-yellow-100 text-yellow-800 border-yellow-300";
+  return "bg-gray-100 text-gray-700 border-gray-300";
+};
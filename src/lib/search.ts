@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// lead_search_snippets marks matches with these control characters instead of HTML
+const highlightStart = '\u0001';
+const highlightEnd = '\u0002';
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export const parseSnippet = (snippet: string): SnippetPart[] =>
+  snippet
+    .split(highlightStart)
+    .flatMap((chunk, i) => {
+      if (i === 0) return [{ text: chunk, highlighted: false }];
+      const [match, rest = ''] = chunk.split(highlightEnd);
+      return [{ text: match, highlighted: true }, { text: rest, highlighted: false }];
+    })
+    .filter(part => part.text.length > 0);
+
+export const fetchSearchSnippets = async (search: string, leadIds: string[]) => {
+  if (!search.trim() || leadIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('lead_search_snippets', { search, lead_ids: leadIds });
+
+  if (error) throw error;
+
+  // Only keep snippets that actually contain a match; name and email hits are already visible in the row
+  return Object.fromEntries(
+    (data || [])
+      .filter(row => row.snippet.includes(highlightStart))
+      .map(row => [row.lead_id, row.snippet])
+  ) as Record<string, string>;
+};
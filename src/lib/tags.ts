@@ -0,0 +1,138 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ActivityInput } from "@/lib/activities";
+import { tagColors, TagFormData } from "@/lib/validations";
+
+export type Tag = Tables<'tags'>;
+export type TagColor = typeof tagColors[number];
+
+// Spelled out in full so Tailwind picks the classes up
+export const tagColorClasses: Record<TagColor, string> = {
+  gray: 'border-gray-300 bg-gray-100 text-gray-800',
+  red: 'border-red-300 bg-red-100 text-red-800',
+  orange: 'border-orange-300 bg-orange-100 text-orange-800',
+  amber: 'border-amber-300 bg-amber-100 text-amber-800',
+  green: 'border-green-300 bg-green-100 text-green-800',
+  teal: 'border-teal-300 bg-teal-100 text-teal-800',
+  blue: 'border-blue-300 bg-blue-100 text-blue-800',
+  indigo: 'border-indigo-300 bg-indigo-100 text-indigo-800',
+  purple: 'border-purple-300 bg-purple-100 text-purple-800',
+  pink: 'border-pink-300 bg-pink-100 text-pink-800',
+};
+
+export const getTagColorClass = (color: string) => tagColorClasses[color as TagColor] ?? tagColorClasses.gray;
+
+export const findTagByName = (tags: Tag[], name: string) =>
+  tags.find(tag => tag.name.toLowerCase() === name.trim().toLowerCase());
+
+export const createTag = async (tag: TagFormData, createdBy: string) => {
+  const { data, error } = await supabase
+    .from('tags')
+    .insert({ name: tag.name.trim(), color: tag.color, created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return data;
+};
+
+interface TagChange {
+  leadId: string;
+  actorId: string;
+  from: string[];
+  to: string[];
+  getTagName: (tagId: string) => string;
+}
+
+// Logged as a lead update with tag names rather than ids, so the history still reads after a tag is
+// deleted. Null when the tags didn't change.
+export const tagChangeActivity = ({ leadId, actorId, from, to, getTagName }: TagChange): ActivityInput<'lead_updated'> | null => {
+  const added = to.filter(id => !from.includes(id)).map(getTagName);
+  const removed = from.filter(id => !to.includes(id)).map(getTagName);
+  if (added.length === 0 && removed.length === 0) return null;
+
+  const description = [
+    added.length > 0 ? `Added tags: ${added.join(', ')}` : null,
+    removed.length > 0 ? `Removed tags: ${removed.join(', ')}` : null,
+  ].filter(Boolean).join('; ');
+
+  return {
+    leadId,
+    actorId,
+    type: 'lead_updated',
+    description,
+    metadata: { changes: { tags: { from: from.map(getTagName), to: to.map(getTagName) } } },
+  };
+};
+
+// Brings a lead's tags in line with tagIds, touching only the rows that differ
+export const setLeadTags = async (leadId: string, tagIds: string[], currentTagIds: string[] = []) => {
+  const removed = currentTagIds.filter(id => !tagIds.includes(id));
+  const added = tagIds.filter(id => !currentTagIds.includes(id));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('lead_tags')
+      .delete()
+      .eq('lead_id', leadId)
+      .in('tag_id', removed);
+
+    if (error) throw error;
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('lead_tags')
+      .upsert(added.map(tagId => ({ lead_id: leadId, tag_id: tagId })), { ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+};
+
+// CSV columns hold tags by name, separated by semicolons like preferred_areas
+export const formatTagList = (tagIds: string[] | null, tags: Tag[]) =>
+  (tagIds || [])
+    .map(id => tags.find(tag => tag.id === id)?.name)
+    .filter((name): name is string => Boolean(name))
+    .join(';');
+
+export const parseTagList = (value: string | undefined) =>
+  (value || '').split(';').map(name => name.trim()).filter(Boolean);
+
+// Creates a tag unless one with the same name (ignoring case) already exists, e.g. because someone else
+// created it since `known` was loaded; the unique index on lower(name) settles the race
+const findOrCreateTag = async (name: string, createdBy: string) => {
+  try {
+    return await createTag({ name, color: 'gray' }, createdBy);
+  } catch (error) {
+    if ((error as { code?: string }).code !== '23505') throw error;
+
+    const { data, error: selectError } = await supabase
+      .from('tags')
+      .select('*')
+      .ilike('name', name.trim().replace(/[\\%_]/g, '\\$&'))
+      .single();
+
+    if (selectError) throw selectError;
+
+    return data;
+  }
+};
+
+// Resolves tag names to ids for imports, creating tags that don't exist yet. New tags are pushed onto
+// `known` so later rows in the same import reuse them instead of trying to create them again.
+export const resolveTagNames = async (names: string[], known: Tag[], createdBy: string) => {
+  const ids: string[] = [];
+
+  for (const name of names) {
+    let tag = findTagByName(known, name);
+    if (!tag) {
+      tag = await findOrCreateTag(name, createdBy);
+      known.push(tag);
+    }
+    if (!ids.includes(tag.id)) ids.push(tag.id);
+  }
+
+  return ids;
+};
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Each call returns the ids that were actually changed; anything else was skipped, e.g. because the
+// caller isn't an admin or the lead was already in (or out of) the trash
+
+export const trashLeads = async (leadIds: string[]) => {
+  const { data, error } = await supabase.rpc('trash_leads', { lead_ids: leadIds });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const restoreLeads = async (leadIds: string[]) => {
+  const { data, error } = await supabase.rpc('restore_leads', { lead_ids: leadIds });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+// Permanent: the leads and their activity history are gone afterwards
+export const purgeLeads = async (leadIds: string[]) => {
+  const { data, error } = await supabase.rpc('purge_leads', { lead_ids: leadIds });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+export const fetchTrashedLeads = async () => {
+  const { data, error } = await supabase.rpc('trashed_leads');
+
+  if (error) throw error;
+
+  return data || [];
+};
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Supabase returns plain error objects rather than Error instances, so look for a message on either
+export function getErrorMessage(error: unknown, fallback: string) {
+  const message = error instanceof Error || (typeof error === 'object' && error !== null && 'message' in error)
+    ? String(error.message)
+    : '';
+  return message || fallback;
+}
@@ -1,14 +1,22 @@
 import { z } from "zod";
+import { defaultPhoneCountry, phoneCountries, PhoneCountry, phoneSchema } from "@/lib/phone";
 
-export const leadSchema = z.object({
+export const dataQualityFlags = ['email_typo', 'email_disposable', 'email_role'] as const;
+
+export const propertyTypes = ['single_family', 'condo', 'townhouse', 'multi_family', 'land', 'mobile_home', 'other'] as const;
+
+const leadFieldsSchema = z.object({
   first_name: z.string().min(1, "First name is required"),
   last_name: z.string().min(1, "Last name is required"),
   email: z.string().email("Invalid email address"),
-  phone: z.string().optional(),
+  // Stored in E.164; extendLeadSchema swaps in the user's own default country
+  phone: phoneSchema(defaultPhoneCountry),
   budget_min: z.number().min(0, "Budget must be positive").optional(),
   budget_max: z.number().min(0, "Budget must be positive").optional(),
   preferred_areas: z.array(z.string()).optional(),
-  property_type: z.string().optional(),
+  property_type: z.enum(propertyTypes).optional(),
+  // Attributes of the chosen property type; see propertyTypeAttributes
+  property_details: z.record(z.unknown()).optional(),
   bedrooms: z.number().int().min(0).optional(),
   bathrooms: z.number().min(0).optional(),
   status: z.enum(['new', 'contacted', 'qualified', 'not_qualified', 'closed']).default('new'),
@@ -16,23 +24,34 @@ export const leadSchema = z.object({
   priority: z.number().int().min(1).max(5).default(3),
   notes: z.string().optional(),
   next_follow_up: z.date().optional(),
-}).refine((data) => {
-  if (data.budget_min && data.budget_max) {
-    return data.budget_min <= data.budget_max;
-  }
-  return true;
-}, {
-  message: "Minimum budget cannot be greater than maximum budget",
-  path: ["budget_max"],
+  assigned_to: z.string().uuid().nullable().optional(),
+  // Replaced with a schema built from the admin's field definitions by extendLeadSchema
+  custom_values: z.record(z.unknown()).optional(),
 });
 
+const withBudgetCheck = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.refine((data) => {
+    if (data.budget_min && data.budget_max) {
+      return data.budget_min <= data.budget_max;
+    }
+    return true;
+  }, {
+    message: "Minimum budget cannot be greater than maximum budget",
+    path: ["budget_max"],
+  });
+
+export const leadSchema = withBudgetCheck(leadFieldsSchema);
+
+export const extendLeadSchema = (customValuesSchema: z.ZodTypeAny, phoneCountry: PhoneCountry) =>
+  withBudgetCheck(leadFieldsSchema.extend({ custom_values: customValuesSchema, phone: phoneSchema(phoneCountry) }));
+
 export type LeadFormData = z.infer<typeof leadSchema>;
 
 export const csvImportSchema = z.object({
   first_name: z.string().min(1),
   last_name: z.string().min(1),
   email: z.string().email(),
-  phone: z.string().optional(),
+  phone: phoneSchema(defaultPhoneCountry),
   budget_min: z.string().optional(),
   budget_max: z.string().optional(),
   preferred_areas: z.string().optional(),
@@ -43,6 +62,187 @@ export const csvImportSchema = z.object({
   source: z.string().optional(),
   priority: z.string().optional(),
   notes: z.string().optional(),
+  tags: z.string().optional(),
+});
+
+export const extendCsvImportSchema = (phoneCountry: PhoneCountry) =>
+  csvImportSchema.extend({ phone: phoneSchema(phoneCountry) });
+
+export type CSVImportData = z.infer<typeof csvImportSchema>;
+
+export const tagColors = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+
+export const tagSchema = z.object({
+  name: z.string().trim().min(1, "Tag name is required").max(40, "Tag names can be at most 40 characters"),
+  color: z.enum(tagColors),
+});
+
+export type TagFormData = z.infer<typeof tagSchema>;
+
+export const areaKinds = ['city', 'neighborhood', 'zip_code'] as const;
+
+export const areaSchema = z.object({
+  name: z.string().trim().min(1, "Area name is required").max(80, "Area names can be at most 80 characters"),
+  kind: z.enum(areaKinds),
+  parent_id: z.string().uuid().nullable(),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type AreaFormData = z.infer<typeof areaSchema>;
+
+export const customFieldTypes = ['text', 'number', 'date', 'select', 'boolean'] as const;
+
+const customFieldKeyPattern = /^[a-z][a-z0-9_]*$/;
+
+// Custom values are imported and exported under their key, so a key can't shadow a standard CSV column
+const reservedCustomFieldKeys = [...Object.keys(csvImportSchema.shape), 'created_at'];
+
+export const customFieldSchema = z.object({
+  key: z.string()
+    .regex(customFieldKeyPattern, "Keys must start with a letter and use only lowercase letters, numbers and underscores")
+    .max(40, "Keys can be at most 40 characters")
+    .refine((key) => !reservedCustomFieldKeys.includes(key), "This key is already used by a standard lead field"),
+  label: z.string().trim().min(1, "Label is required").max(60, "Labels can be at most 60 characters"),
+  field_type: z.enum(customFieldTypes),
+  options: z.array(z.string().trim().min(1)).default([]),
+  required: z.boolean().default(false),
+}).refine((data) => data.field_type !== 'select' || data.options.length > 0, {
+  message: "Select fields need at least one option",
+  path: ["options"],
+});
+
+export type CustomFieldFormData = z.infer<typeof customFieldSchema>;
+
+export const leadSortOptions = [
+  'created_at:desc',
+  'created_at:asc',
+  'lead_score:desc',
+  'priority:desc',
+  'last_name:asc',
+  'budget_max:desc',
+  'next_follow_up:asc',
+] as const;
+
+export const leadColumnKeys = [
+  'name',
+  'email',
+  'phone',
+  'status',
+  'source',
+  'priority',
+  'lead_score',
+  'budget',
+  'preferred_areas',
+  'property_type',
+  'assigned_to',
+  'last_contacted',
+  'next_follow_up',
+  'created_at',
+  'tags',
+] as const;
+
+export const defaultLeadColumns: Array<typeof leadColumnKeys[number]> = [
+  'name', 'email', 'phone', 'status', 'source', 'priority', 'lead_score', 'budget', 'assigned_to', 'tags', 'created_at',
+];
+
+export const preferencesSchema = z.object({
+  leads_page_size: z.number().int().min(5).max(100).catch(10),
+  leads_sort: z.enum(leadSortOptions).catch('created_at:desc'),
+  leads_status_filter: z.enum(['all', 'new', 'contacted', 'qualified', 'not_qualified', 'closed']).catch('all'),
+  leads_source_filter: z.enum(['all', 'website', 'referral', 'social_media', 'cold_call', 'email_campaign', 'other']).catch('all'),
+  reporting_period_days: z.number().int().min(0).catch(0),
+  leads_columns: z.array(z.enum(leadColumnKeys)).min(1).catch(defaultLeadColumns),
+  // Country assumed for phone numbers typed or imported without a country code
+  phone_country: z.enum(phoneCountries).catch(defaultPhoneCountry),
+});
+
+export type UserPreferences = z.infer<typeof preferencesSchema>;
+
+export const defaultPreferences: UserPreferences = preferencesSchema.parse({});
+
+export const settingsSchema = z.object({
+  full_name: z.string().trim().min(1, "Full name is required").max(100, "Full name is too long"),
+  preferences: preferencesSchema,
+});
+
+export type SettingsFormData = z.infer<typeof settingsSchema>;
+
+
+export const interactionChannels = ['call', 'email', 'meeting', 'text'] as const;
+export const interactionDirections = ['outbound', 'inbound'] as const;
+export const interactionOutcomes = ['connected', 'left_voicemail', 'no_answer', 'replied', 'no_response', 'appointment_set', 'not_interested'] as const;
+
+export const interactionSchema = z.object({
+  channel: z.enum(interactionChannels),
+  direction: z.enum(interactionDirections).default('outbound'),
+  outcome: z.enum(interactionOutcomes),
+  duration_minutes: z.number().int().min(0, "Duration must be positive").max(1440, "Duration must be under 24 hours").optional(),
+  occurred_at: z.date().refine((date) => date.getTime() <= Date.now(), "Interaction cannot be in the future"),
+  notes: z.string().optional(),
+});
+
+export type InteractionFormData = z.infer<typeof interactionSchema>;
+
+
+export const leadFilterFields = [
+  'budget',
+  'bedrooms',
+  'bathrooms',
+  'property_type',
+  'preferred_areas',
+  'priority',
+  'created_at',
+  'next_follow_up',
+  'assigned_to',
+  'tags',
+  'data_quality',
+  'custom',
+  'property_detail',
+] as const;
+
+const filterDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be formatted as YYYY-MM-DD");
+
+export const leadFilterConditionSchema = z.object({
+  field: z.enum(leadFilterFields),
+  // Which custom field or property type attribute a 'custom' or 'property_detail' condition applies to
+  key: z.string().regex(customFieldKeyPattern).optional(),
+  min: z.number().min(0).optional(),
+  max: z.number().min(0).optional(),
+  from: filterDate.optional(),
+  to: filterDate.optional(),
+  values: z.array(z.string().trim().min(1)).optional(),
+});
+
+export type LeadFilterCondition = z.infer<typeof leadFilterConditionSchema>;
+
+export const leadFilterGroupSchema = z.object({
+  match: z.enum(['all', 'any']),
+  conditions: z.array(leadFilterConditionSchema),
+});
+
+export type LeadFilterGroup = z.infer<typeof leadFilterGroupSchema>;
+
+export const advancedLeadFilterSchema = z.object({
+  match: z.enum(['all', 'any']),
+  groups: z.array(leadFilterGroupSchema),
+});
+
+export type AdvancedLeadFilter = z.infer<typeof advancedLeadFilterSchema>;
+
+export const leadViewFiltersSchema = z.object({
+  q: z.string().optional(),
+  status: z.string().optional(),
+  source: z.string().optional(),
+  assignee: z.string().optional(),
+  sort: z.string().optional(),
+  advanced: advancedLeadFilterSchema.optional(),
+});
+
+export type LeadViewFilters = z.infer<typeof leadViewFiltersSchema>;
+
+export const savedViewSchema = z.object({
+  name: z.string().trim().min(1, "View name is required").max(80, "View name is too long"),
+  is_shared: z.boolean().default(false),
 });
 
-export type CSVImportData = z.infer<typeof csvImportSchema>;
\ No newline at end of file
+export type SavedViewFormData = z.infer<typeof savedViewSchema>;
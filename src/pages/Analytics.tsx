@@ -3,9 +3,11 @@ import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { BarChart3, TrendingUp, Users, Target, Clock, Star } from "lucide-react";
+import { BarChart3, TrendingUp, Users, Target, Clock, Star, MapPin } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { matchArea } from "@/lib/areas";
 
 interface AnalyticsData {
   totalLeads: number;
@@ -16,27 +18,43 @@ interface AnalyticsData {
   conversionRate: number;
   averageResponseTime: number;
   topPerformingSources: Array<{ source: string; count: number; percentage: number }>;
+  topAreas: Array<{ area: string; count: number; percentage: number }>;
+  uncataloguedAreaLeads: number;
 }
 
 export default function Analytics() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { preferences, loading: profileLoading } = useProfile();
+  const reportingPeriodDays = preferences.reporting_period_days;
 
   useEffect(() => {
-    if (user) {
+    if (user && !profileLoading) {
       fetchAnalytics();
     }
-  }, [user]);
+  }, [user, profileLoading, reportingPeriodDays]);
 
   const fetchAnalytics = async () => {
     try {
       // Fetch all leads
-      const { data: leads, error } = await supabase
+      let query = supabase
         .from('buyer_leads')
         .select('*');
 
+      if (reportingPeriodDays > 0) {
+        const since = new Date();
+        since.setDate(since.getDate() - reportingPeriodDays);
+        query = query.gte('created_at', since.toISOString());
+      }
+
+      const [{ data: leads, error }, { data: areas, error: areasError }] = await Promise.all([
+        query,
+        supabase.from('areas').select('*'),
+      ]);
+
       if (error) throw error;
+      if (areasError) throw areasError;
 
       const totalLeads = leads?.length || 0;
       
@@ -72,6 +90,31 @@ export default function Analytics() {
         .sort((a, b) => b.count - a.count)
         .slice(0, 5);
 
+      // Group preferred areas by catalog entry, so spelling variants on older leads count together
+      const areaBreakdown: Record<string, number> = {};
+      let uncataloguedAreaLeads = 0;
+      leads?.forEach(lead => {
+        const canonical = new Set<string>();
+        let uncatalogued = false;
+        lead.preferred_areas?.forEach(name => {
+          const area = matchArea(name, areas || []);
+          if (area) canonical.add(area.name);
+          else uncatalogued = true;
+        });
+        canonical.forEach(name => {
+          areaBreakdown[name] = (areaBreakdown[name] || 0) + 1;
+        });
+        if (uncatalogued) uncataloguedAreaLeads++;
+      });
+      const topAreas = Object.entries(areaBreakdown)
+        .map(([area, count]) => ({
+          area,
+          count,
+          percentage: totalLeads > 0 ? (count / totalLeads) * 100 : 0
+        }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
       setAnalytics({
         totalLeads,
         statusBreakdown,
@@ -81,6 +124,8 @@ export default function Analytics() {
         conversionRate,
         averageResponseTime: 24, // Placeholder - would need activity tracking
         topPerformingSources,
+        topAreas,
+        uncataloguedAreaLeads,
       });
 
     } catch (error) {
@@ -138,7 +183,7 @@ export default function Analytics() {
             <CardContent>
               <div className="text-2xl font-bold">{analytics?.totalLeads || 0}</div>
               <p className="text-xs text-muted-foreground">
-                All time leads
+                {reportingPeriodDays > 0 ? `Created in the last ${reportingPeriodDays} days` : "All time leads"}
               </p>
             </CardContent>
           </Card>
@@ -252,6 +297,44 @@ export default function Analytics() {
           </Card>
         </div>
 
+        {/* Top Areas */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              Top Areas
+            </CardTitle>
+            <CardDescription>Most requested areas from the catalog</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {analytics?.topAreas.map((area, index) => (
+              <div key={area.area} className="space-y-2">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">#{index + 1}</Badge>
+                    <span className="text-sm font-medium">{area.area}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{area.count}</Badge>
+                    <span className="text-xs text-muted-foreground w-12 text-right">
+                      {formatPercentage(area.percentage)}
+                    </span>
+                  </div>
+                </div>
+                <Progress value={area.percentage} className="h-2" />
+              </div>
+            ))}
+            {analytics?.topAreas.length === 0 && (
+              <p className="text-sm text-muted-foreground">No leads have a catalogued area yet</p>
+            )}
+            {!!analytics?.uncataloguedAreaLeads && (
+              <p className="text-xs text-muted-foreground">
+                {analytics.uncataloguedAreaLeads} {analytics.uncataloguedAreaLeads === 1 ? 'lead names' : 'leads name'} an area that isn't in the catalog
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Priority Distribution */}
         <Card>
           <CardHeader>
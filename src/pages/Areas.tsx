@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Plus, ShieldAlert, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useAreas } from "@/hooks/useAreas";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Area,
+  AreaKind,
+  areaKindLabels,
+  fetchUncataloguedAreas,
+  flattenAreaTree,
+  getDescendantIds,
+  remapLeadArea,
+} from "@/lib/areas";
+import { areaKinds, areaSchema } from "@/lib/validations";
+
+interface AreaDraft {
+  name: string;
+  kind: AreaKind;
+  parent_id: string;
+  aliases: string;
+}
+
+const NO_PARENT = '__none';
+
+const emptyDraft: AreaDraft = { name: '', kind: 'neighborhood', parent_id: NO_PARENT, aliases: '' };
+
+export default function Areas() {
+  const [uncatalogued, setUncatalogued] = useState<Array<{ name: string; lead_count: number }>>([]);
+  const [draft, setDraft] = useState<AreaDraft>(emptyDraft);
+  const [editing, setEditing] = useState<Area | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+  const { role, loading: profileLoading } = useProfile();
+  const { areas, loading: areasLoading, refresh } = useAreas();
+  const { toast } = useToast();
+
+  const isAdmin = role === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchUncatalogued();
+    }
+  }, [user, isAdmin]);
+
+  const fetchUncatalogued = async () => {
+    try {
+      setUncatalogued(await fetchUncataloguedAreas());
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch uncatalogued areas",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      const description = await action();
+      toast({ title: "Success!", description });
+      await Promise.all([refresh(), fetchUncatalogued()]);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update the areas catalog",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetDraft = () => {
+    setDraft(emptyDraft);
+    setEditing(null);
+  };
+
+  const startEditing = (area: Area) => {
+    setEditing(area);
+    setDraft({
+      name: area.name,
+      kind: area.kind as AreaKind,
+      parent_id: area.parent_id || NO_PARENT,
+      aliases: area.aliases.join(', '),
+    });
+  };
+
+  const save = () => run(async () => {
+    const result = areaSchema.safeParse({
+      name: draft.name,
+      kind: draft.kind,
+      parent_id: draft.parent_id === NO_PARENT ? null : draft.parent_id,
+      aliases: draft.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+    });
+    if (!result.success) throw new Error(result.error.issues[0].message);
+
+    const { name, kind, parent_id, aliases } = result.data;
+    const values = { name, kind, parent_id, aliases: aliases || [] };
+    const { error } = editing
+      ? await supabase.from('areas').update(values).eq('id', editing.id)
+      : await supabase.from('areas').insert(values);
+
+    if (error) {
+      throw error.code === '23505' ? new Error(`An area named "${name}" already exists`) : error;
+    }
+
+    resetDraft();
+    return editing && editing.name !== name
+      ? `Area renamed to "${name}" on every lead.`
+      : `Area "${name}" ${editing ? 'updated' : 'added'}.`;
+  });
+
+  const remove = (area: Area) => {
+    const message = `Delete "${area.name}"? Leads keep the name, but it will be listed as uncatalogued. `
+      + 'Areas beneath it move to the top level.';
+    if (!window.confirm(message)) return;
+
+    run(async () => {
+      const { error } = await supabase.from('areas').delete().eq('id', area.id);
+
+      if (error) throw error;
+
+      if (editing?.id === area.id) resetDraft();
+      return `Area "${area.name}" deleted.`;
+    });
+  };
+
+  const remap = (fromName: string, toAreaId: string) => run(async () => {
+    const target = areas.find(area => area.id === toAreaId);
+    const changed = await remapLeadArea(fromName, toAreaId);
+
+    return `"${fromName}" replaced with "${target?.name}" on ${changed.length} ${changed.length === 1 ? 'lead' : 'leads'}.`;
+  });
+
+  // An area can't sit beneath itself or anything already beneath it
+  const excludedParents = editing ? new Set([editing.id, ...getDescendantIds(editing.id, areas)]) : new Set<string>();
+  const parentOptions = flattenAreaTree(areas).filter(({ area }) => !excludedParents.has(area.id));
+
+  if (areasLoading || profileLoading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>Only admins can manage the areas catalog.</AlertDescription>
+          </Alert>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Areas</h1>
+          <p className="text-muted-foreground">The cities, neighborhoods and zip codes buyers can pick as preferred areas</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing ? `Edit ${editing.name}` : "Add Area"}</CardTitle>
+            <CardDescription>Aliases are other spellings that imports should match to this area</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="area-name">Name</Label>
+                <Input
+                  id="area-name"
+                  value={draft.name}
+                  placeholder="Downtown"
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select value={draft.kind} onValueChange={(kind: AreaKind) => setDraft({ ...draft, kind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {areaKinds.map(kind => (
+                      <SelectItem key={kind} value={kind}>{areaKindLabels[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Parent</Label>
+                <Select value={draft.parent_id} onValueChange={(parent_id) => setDraft({ ...draft, parent_id })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None</SelectItem>
+                    {parentOptions.map(({ area }) => (
+                      <SelectItem key={area.id} value={area.id}>{area.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="area-aliases">Aliases</Label>
+              <Input
+                id="area-aliases"
+                value={draft.aliases}
+                placeholder="DT, City Centre"
+                onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+              />
+              <p className="text-sm text-muted-foreground">Separate aliases with commas</p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {editing && (
+                <Button type="button" variant="outline" onClick={resetDraft} disabled={busy}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="button" onClick={save} disabled={busy || !draft.name.trim()}>
+                {editing ? "Save Area" : (
+                  <>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add Area
+                  </>
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Catalog ({areas.length})</CardTitle>
+            <CardDescription>Renaming an area renames it on every lead that has it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {areas.length > 0 ? (
+              <div className="space-y-2">
+                {flattenAreaTree(areas).map(({ area, depth }) => (
+                  <div key={area.id} className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{area.name}</span>
+                        <Badge variant="secondary">{areaKindLabels[area.kind as AreaKind]}</Badge>
+                      </div>
+                      {area.aliases.length > 0 && (
+                        <p className="text-xs text-muted-foreground truncate">Also: {area.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => startEditing(area)} disabled={busy}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(area)}
+                      disabled={busy}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-12">No areas yet. Add the places your buyers ask for above.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Uncatalogued Areas ({uncatalogued.length})</CardTitle>
+            <CardDescription>
+              Names on leads that aren't in the catalog, from older entries or unmatched imports. Add them or map them to an existing area.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {uncatalogued.length > 0 ? (
+              <div className="space-y-2">
+                {uncatalogued.map(({ name, lead_count }) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <span className="font-medium truncate">{name}</span>
+                      <span className="ml-2 text-sm text-muted-foreground">
+                        {lead_count} {lead_count === 1 ? 'lead' : 'leads'}
+                      </span>
+                    </div>
+                    <Select value="" onValueChange={(areaId) => remap(name, areaId)} disabled={busy || areas.length === 0}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Map to..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {flattenAreaTree(areas).map(({ area }) => (
+                          <SelectItem key={area.id} value={area.id}>{area.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setEditing(null);
+                        setDraft({ ...emptyDraft, name });
+                      }}
+                      disabled={busy}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add to Catalog
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-12">Every area on a lead is in the catalog</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
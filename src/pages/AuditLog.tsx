@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShieldAlert, X } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useTeamMembers } from "@/hooks/useTeamMembers";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AuditEntry,
+  AuditOperation,
+  auditOperations,
+  auditPageSize,
+  describeAuditEntry,
+  fetchAuditLog,
+  formatAuditValue,
+  parseAuditChanges,
+} from "@/lib/auditLog";
+
+const operationVariants: Record<AuditOperation, "default" | "secondary" | "destructive"> = {
+  INSERT: "default",
+  UPDATE: "secondary",
+  DELETE: "destructive",
+};
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { role, loading: profileLoading } = useProfile();
+  const { getMemberName } = useTeamMembers();
+  const { toast } = useToast();
+
+  const isAdmin = role === 'admin';
+  const leadId = searchParams.get('lead');
+  const operation = auditOperations.find(op => op === searchParams.get('operation')) ?? null;
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      loadEntries(0);
+    } else if (!profileLoading) {
+      setLoading(false);
+    }
+  }, [user, isAdmin, profileLoading, leadId, operation]);
+
+  const loadEntries = async (offset: number) => {
+    if (offset > 0) setLoadingMore(true);
+    try {
+      const page = await fetchAuditLog({ leadId, operation, offset });
+
+      setEntries(prev => offset > 0 ? [...prev, ...page.entries] : page.entries);
+      setHasMore(page.hasMore);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch the audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const updateParam = (key: string, value: string | null) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  // The service role and the SQL console have no signed-in user, so fall back to the database role
+  const getActorName = (entry: AuditEntry) =>
+    entry.changed_by ? getMemberName(entry.changed_by) : `System (${entry.actor_role})`;
+
+  if (loading || profileLoading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>Only admins can view the audit log.</AlertDescription>
+          </Alert>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">Every change to a lead, recorded by the database whichever client made it</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Lead Changes</CardTitle>
+                <CardDescription>Most recent first</CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                {leadId && (
+                  <Button variant="outline" size="sm" onClick={() => updateParam('lead', null)}>
+                    Single lead
+                    <X className="ml-2 h-3 w-3" />
+                  </Button>
+                )}
+                <Select value={operation ?? "all"} onValueChange={(value) => updateParam('operation', value === "all" ? null : value)}>
+                  <SelectTrigger className="w-[160px]">
+                    <SelectValue placeholder="Operation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Operations</SelectItem>
+                    <SelectItem value="INSERT">Created</SelectItem>
+                    <SelectItem value="UPDATE">Updated</SelectItem>
+                    <SelectItem value="DELETE">Deleted</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {entries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Lead</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => {
+                    const changes = parseAuditChanges(entry.changes);
+
+                    return (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {entry.operation === 'DELETE' ? (
+                            <span>{entry.lead_name}</span>
+                          ) : (
+                            <Link to={`/leads/${entry.lead_id}`} className="font-medium hover:underline">
+                              {entry.lead_name}
+                            </Link>
+                          )}
+                          {!leadId && (
+                            <Button
+                              variant="link"
+                              size="sm"
+                              className="h-auto px-0 block text-xs"
+                              onClick={() => updateParam('lead', entry.lead_id)}
+                            >
+                              Show history
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={operationVariants[entry.operation as AuditOperation] ?? "secondary"}>
+                            {describeAuditEntry(entry)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{getActorName(entry)}</TableCell>
+                        <TableCell>
+                          {changes.length > 0 ? (
+                            <ul className="space-y-1 text-sm">
+                              {changes.map(change => (
+                                <li key={change.field}>
+                                  <span className="font-medium">{change.field.replace(/_/g, ' ')}</span>:{' '}
+                                  {entry.operation !== 'INSERT' && (
+                                    <span className="text-muted-foreground line-through">{formatAuditValue(change.from)}</span>
+                                  )}
+                                  {entry.operation === 'UPDATE' && ' → '}
+                                  {entry.operation !== 'DELETE' && <span>{formatAuditValue(change.to)}</span>}
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-muted-foreground py-12">No changes recorded yet</p>
+            )}
+
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={loadingMore}>
+                  {loadingMore ? "Loading..." : `Load ${auditPageSize} more`}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
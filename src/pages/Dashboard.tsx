@@ -7,6 +7,7 @@ import { Users, Plus, TrendingUp, Clock, Star } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
 
 interface DashboardStats {
   total_leads: number;
@@ -21,20 +22,30 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { preferences, loading: profileLoading } = useProfile();
+  const reportingPeriodDays = preferences.reporting_period_days;
 
   useEffect(() => {
-    if (user) {
+    if (user && !profileLoading) {
       fetchDashboardStats();
     }
-  }, [user]);
+  }, [user, profileLoading, reportingPeriodDays]);
 
   const fetchDashboardStats = async () => {
     try {
       // Fetch lead counts by status
-      const { data: leads, error } = await supabase
+      let query = supabase
         .from('buyer_leads')
         .select('id, status, first_name, last_name, email, created_at, priority');
 
+      if (reportingPeriodDays > 0) {
+        const since = new Date();
+        since.setDate(since.getDate() - reportingPeriodDays);
+        query = query.gte('created_at', since.toISOString());
+      }
+
+      const { data: leads, error } = await query;
+
       if (error) throw error;
 
       const totalLeads = leads?.length || 0;
@@ -117,7 +128,7 @@ export default function Dashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{stats?.total_leads || 0}</div>
               <p className="text-xs text-muted-foreground">
-                All time leads in system
+                {reportingPeriodDays > 0 ? `Created in the last ${reportingPeriodDays} days` : "All time leads in system"}
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { isSameDay } from "date-fns";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarCheck, CheckCircle, UserCheck } from "lucide-react";
+import { CompleteFollowUpDialog } from "@/components/CompleteFollowUpDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { followUpBuckets, FollowUpBucket, getFollowUpBucket } from "@/lib/followUps";
+import { getPriorityColor } from "@/lib/leads";
+
+interface FollowUpLead {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  priority: number;
+  assigned_to: string;
+  last_contacted: string;
+  next_follow_up: string;
+}
+
+export default function FollowUps() {
+  const [leads, setLeads] = useState<FollowUpLead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [onlyMine, setOnlyMine] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(new Date());
+  const [completingLead, setCompletingLead] = useState<FollowUpLead | null>(null);
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      fetchFollowUps();
+    }
+  }, [user, onlyMine]);
+
+  const fetchFollowUps = async () => {
+    try {
+      let query = supabase
+        .from('buyer_leads')
+        .select('id, first_name, last_name, email, phone, priority, assigned_to, last_contacted, next_follow_up')
+        .not('next_follow_up', 'is', null)
+        .order('next_follow_up', { ascending: true });
+
+      if (onlyMine && user) {
+        query = query.eq('assigned_to', user.id);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setLeads(data || []);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch follow-ups",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleString() : 'Never';
+  };
+
+  const buckets = followUpBuckets.reduce((acc, { value }) => {
+    acc[value] = leads.filter(lead => getFollowUpBucket(new Date(lead.next_follow_up)) === value);
+    return acc;
+  }, {} as Record<FollowUpBucket, FollowUpLead[]>);
+
+  const followUpDays = leads.map(lead => new Date(lead.next_follow_up));
+  const overdueDays = buckets.overdue.map(lead => new Date(lead.next_follow_up));
+  const selectedDayLeads = selectedDay
+    ? leads.filter(lead => isSameDay(new Date(lead.next_follow_up), selectedDay))
+    : [];
+
+  const renderLead = (lead: FollowUpLead) => (
+    <div key={lead.id} className="flex items-center justify-between border-b pb-2 last:border-b-0">
+      <div className="min-w-0">
+        <button
+          type="button"
+          className="font-medium hover:underline text-left"
+          onClick={() => navigate(`/leads/${lead.id}`)}
+        >
+          {lead.first_name} {lead.last_name}
+        </button>
+        <p className="text-xs text-muted-foreground">
+          Due {formatDateTime(lead.next_follow_up)} · Last contacted {formatDateTime(lead.last_contacted)}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Badge variant={getPriorityColor(lead.priority)}>{lead.priority}</Badge>
+        <Button variant="outline" size="sm" onClick={() => setCompletingLead(lead)}>
+          <CheckCircle className="mr-2 h-4 w-4" />
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Follow-ups</h1>
+            <p className="text-muted-foreground">Stay on top of scheduled buyer follow-ups</p>
+          </div>
+          <Button variant={onlyMine ? "default" : "outline"} onClick={() => setOnlyMine(!onlyMine)}>
+            <UserCheck className="mr-2 h-4 w-4" />
+            My Leads
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-2">
+            {followUpBuckets.map(({ value, label }) => (
+              <Card key={value}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    {label}
+                    <Badge variant={value === 'overdue' && buckets[value].length > 0 ? "destructive" : "secondary"}>
+                      {buckets[value].length}
+                    </Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {buckets[value].length > 0
+                    ? buckets[value].map(renderLead)
+                    : <p className="text-sm text-muted-foreground">Nothing scheduled</p>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarCheck className="h-4 w-4" />
+                Calendar
+              </CardTitle>
+              <CardDescription>Days with follow-ups are highlighted</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Calendar
+                mode="single"
+                selected={selectedDay}
+                onSelect={setSelectedDay}
+                modifiers={{ scheduled: followUpDays, overdue: overdueDays }}
+                modifiersClassNames={{
+                  scheduled: "font-bold underline decoration-primary decoration-2",
+                  overdue: "text-destructive",
+                }}
+                className="rounded-md border w-fit mx-auto"
+              />
+              <div className="space-y-4">
+                <p className="text-sm font-medium">
+                  {selectedDay ? selectedDay.toLocaleDateString() : 'Select a day'}
+                </p>
+                {selectedDayLeads.length > 0
+                  ? selectedDayLeads.map(renderLead)
+                  : <p className="text-sm text-muted-foreground">No follow-ups on this day</p>}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <CompleteFollowUpDialog
+          lead={completingLead}
+          onOpenChange={(open) => !open && setCompletingLead(null)}
+          onCompleted={fetchFollowUps}
+        />
+      </div>
+    </Layout>
+  );
+}
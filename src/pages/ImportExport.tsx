@@ -6,126 +6,346 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Upload, Download, FileText, AlertCircle, CheckCircle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Download, FileText, AlertCircle, AlertTriangle, CheckCircle } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
 import { useToast } from "@/hooks/use-toast";
-import { csvImportSchema, CSVImportData } from "@/lib/validations";
+import { extendCsvImportSchema, CSVImportData } from "@/lib/validations";
+import { buildLeadsCsv, downloadCsv, parseCsv } from "@/lib/csv";
+import { parseTagList, resolveTagNames, setLeadTags, Tag } from "@/lib/tags";
+import { Area, matchAreaNames } from "@/lib/areas";
+import { matchPropertyType, propertyTypeLabels } from "@/lib/propertyTypes";
+import { phoneCountryInfo } from "@/lib/phone";
+import { checkEmailQuality } from "@/lib/emailQuality";
+import { recordActivity } from "@/lib/activities";
+import {
+  buildDuplicateIndex,
+  DuplicateCandidate,
+  DuplicateMatch,
+  fetchDuplicates,
+  isLikelyDuplicate,
+} from "@/lib/duplicates";
+import { DuplicateMatchSummary } from "@/components/DuplicateMatchSummary";
+import { propertyTypes } from "@/lib/validations";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import {
+  buildCustomValuesSchema,
+  compactCustomValues,
+  CustomFieldType,
+  customFieldTypeLabels,
+  getCustomValues,
+  parseCustomCsvValue,
+} from "@/lib/customFields";
+
+type DuplicateAction = 'skip' | 'update' | 'create';
+
+const duplicateActionLabels: Record<DuplicateAction, string> = {
+  skip: 'Skip this row',
+  update: 'Update existing lead',
+  create: 'Create anyway',
+};
+
+// Columns whose value is filled in by default when the CSV leaves them blank
+const defaultedColumns = ['status', 'source', 'priority'];
+
+interface PreparedRow {
+  row: number;
+  lead: TablesInsert<'buyer_leads'>;
+  // What the row changes when it updates an existing lead instead: only the columns it fills in, so
+  // blank cells don't wipe details the lead already has
+  updates: TablesUpdate<'buyer_leads'>;
+  tagNames: string[];
+  unmatchedAreas: string[];
+  emailMessages: string[];
+  duplicates: DuplicateMatch[];
+  // Stands in for this row when later rows are checked against it; the id is filled in once it's saved
+  candidate: DuplicateCandidate;
+}
+
+// A parsed file waiting on duplicate choices before anything is written
+interface PendingImport {
+  rows: PreparedRow[];
+  errors: Array<{ row: number; error: string }>;
+  total: number;
+  tags: Tag[];
+  // Row numbers of the candidates that stand for earlier rows in the same file
+  fileRows: Map<DuplicateCandidate, number>;
+}
 
 interface ImportResult {
   success: number;
+  // Rows merged into an existing lead, or left out, after being flagged as duplicates
+  updated: number;
+  skipped: number;
   errors: Array<{ row: number; error: string }>;
   total: number;
+  // Area names that didn't match the catalog, with how many imported leads used each
+  unmatchedAreas: Record<string, number>;
+  // Imported leads whose email looks mistyped, disposable or shared; they're flagged on the lead too
+  emailWarnings: Array<{ row: number; email: string; messages: string[] }>;
 }
 
 export default function ImportExport() {
   const [importing, setImporting] = useState(false);
+  const [checkingFile, setCheckingFile] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [duplicateActions, setDuplicateActions] = useState<Record<number, DuplicateAction>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { customFields } = useCustomFields();
+  const { preferences } = useProfile();
+
+  // Parses and validates the whole file and checks every row for duplicates, without saving anything yet
+  const prepareImport = async (file: File): Promise<PendingImport> => {
+    if (!user) throw new Error('You must be signed in to import leads');
+
+    const text = await file.text();
+    const records = parseCsv(text);
+
+    if (records.length < 2) {
+      throw new Error('CSV file must contain at least a header row and one data row');
+    }
+
+    const headers = records[0].map(h => h.toLowerCase().replace(/\s+/g, '_'));
+    const dataRecords = records.slice(1);
+
+    const requiredFields = ['first_name', 'last_name', 'email'];
+    const missingFields = requiredFields.filter(field => !headers.includes(field));
+
+    if (missingFields.length > 0) {
+      throw new Error(`Missing required columns: ${missingFields.join(', ')}`);
+    }
+
+    const { data: existingTags, error: tagsError } = await supabase.from('tags').select('*');
+    if (tagsError) throw tagsError;
+    const { data: catalogAreas, error: areasError } = await supabase.from('areas').select('*');
+    if (areasError) throw areasError;
+    const knownAreas: Area[] = catalogAreas || [];
+    const customValuesSchema = buildCustomValuesSchema(customFields);
+    const rowSchema = extendCsvImportSchema(preferences.phone_country);
+    // Rows are added as they're read, so a buyer listed twice in the same file is caught too
+    const duplicateIndex = buildDuplicateIndex([]);
+
+    const rows: PreparedRow[] = [];
+    const errors: Array<{ row: number; error: string }> = [];
+    const fileRows = new Map<DuplicateCandidate, number>();
+
+    dataRecords.forEach((values, i) => {
+      try {
+        const rowData: any = {};
+
+        headers.forEach((header, index) => {
+          if (values[index]) {
+            rowData[header] = values[index];
+          }
+        });
 
-  const parseCsvLine = (line: string): string[] => {
-    const result = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+        // Validate the row data
+        const validatedData = rowSchema.parse(rowData);
+        const customValues = customValuesSchema.parse(Object.fromEntries(
+          customFields.map(field => [field.key, parseCustomCsvValue(field, rowData[field.key])])
+        ));
+        // Unrecognised property types are imported as 'other' with the original text kept in the notes
+        const rawPropertyType = validatedData.property_type?.trim();
+        const propertyType = rawPropertyType ? matchPropertyType(rawPropertyType) ?? 'other' : null;
+        const notes = [
+          validatedData.notes,
+          rawPropertyType && !matchPropertyType(rawPropertyType) ? `Property type (as imported): ${rawPropertyType}` : undefined,
+        ].filter(Boolean).join('\n\n');
+        const emailQuality = checkEmailQuality(validatedData.email);
+        const areaMatch = matchAreaNames(
+          (validatedData.preferred_areas || '').split(';').map(a => a.trim()).filter(Boolean),
+          knownAreas
+        );
+
+        // Convert and prepare for database
+        const leadData = {
+          first_name: validatedData.first_name,
+          last_name: validatedData.last_name,
+          email: validatedData.email,
+          phone: validatedData.phone || null,
+          budget_min: validatedData.budget_min ? parseFloat(validatedData.budget_min) : null,
+          budget_max: validatedData.budget_max ? parseFloat(validatedData.budget_max) : null,
+          preferred_areas: areaMatch.names,
+          property_type: propertyType,
+          bedrooms: validatedData.bedrooms ? parseInt(validatedData.bedrooms) : null,
+          bathrooms: validatedData.bathrooms ? parseFloat(validatedData.bathrooms) : null,
+          status: (validatedData.status as any) || 'new',
+          source: (validatedData.source as any) || 'other',
+          priority: validatedData.priority ? parseInt(validatedData.priority) : 3,
+          notes: notes || null,
+          custom_values: compactCustomValues(customValues),
+          data_quality_flags: emailQuality.issues.map(issue => issue.flag),
+          created_by: user.id,
+        };
+
+        const { created_by: _createdBy, ...fields } = leadData;
+        const updates = Object.fromEntries(Object.entries(fields).filter(([key, value]) =>
+          key === 'data_quality_flags' || (
+            value !== null &&
+            !(Array.isArray(value) && value.length === 0) &&
+            (!defaultedColumns.includes(key) || rowData[key] !== undefined)
+          )
+        ));
+
+        const candidate: DuplicateCandidate = {
+          id: '',
+          first_name: leadData.first_name,
+          last_name: leadData.last_name,
+          email: leadData.email,
+          phone: leadData.phone,
+        };
+        const duplicates = duplicateIndex.find(candidate);
+        duplicateIndex.add(candidate);
+        fileRows.set(candidate, i + 2);
+
+        rows.push({
+          row: i + 2, // +2 because we start from line 1 and skip header
+          lead: leadData,
+          updates,
+          tagNames: parseTagList(validatedData.tags),
+          unmatchedAreas: areaMatch.unmatched,
+          emailMessages: emailQuality.issues.map(issue => issue.message),
+          duplicates,
+          candidate,
+        });
+      } catch (error: any) {
+        errors.push({
+          row: i + 2,
+          error: error.message || 'Unknown error'
+        });
+      }
+    });
+
+    const existingMatches = await fetchDuplicates(rows.map(row => row.candidate));
+    rows.forEach((row, index) => {
+      row.duplicates = [...existingMatches[index], ...row.duplicates].sort((a, b) => b.score - a.score);
+    });
+
+    return { rows, errors, total: dataRecords.length, tags: existingTags || [], fileRows };
+  };
+
+  // Applies a flagged row to the lead it duplicates, merging custom values rather than replacing them
+  const updateExistingLead = async (leadId: string, row: PreparedRow) => {
+    if (!user) return;
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('buyer_leads')
+      .select('*')
+      .eq('id', leadId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const updates: TablesUpdate<'buyer_leads'> = {
+      ...row.updates,
+      custom_values: compactCustomValues({ ...getCustomValues(existing.custom_values), ...getCustomValues(row.lead.custom_values) }),
+    };
+
+    // Quality flags follow the email change that caused them, as they do when editing a lead. custom_values
+    // comes back from jsonb with its keys reordered, so objects are compared key-sorted.
+    const comparable = (value: unknown) => JSON.stringify(
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value ?? null
+    );
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    Object.entries(updates).forEach(([key, value]) => {
+      const before = existing[key as keyof typeof existing] ?? null;
+      if (key !== 'data_quality_flags' && comparable(before) !== comparable(value)) {
+        changes[key] = { from: before, to: value ?? null };
       }
+    });
+
+    const { error } = await supabase
+      .from('buyer_leads')
+      .update(updates)
+      .eq('id', leadId);
+
+    if (error) throw error;
+
+    const changedFields = Object.keys(changes);
+    if (changedFields.length > 0) {
+      await recordActivity({
+        leadId,
+        actorId: user.id,
+        type: 'lead_updated',
+        description: `Updated ${changedFields.map(field => field.replace(/_/g, ' ')).join(', ')} from CSV import`,
+        metadata: { changes },
+      });
     }
-    
-    result.push(current.trim());
-    return result;
   };
 
-  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file || !user) return;
+  const runImport = async (pending: PendingImport, actions: Record<number, DuplicateAction>) => {
+    if (!user) return;
 
     setImporting(true);
     setImportProgress(0);
-    setImportResult(null);
 
     try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
-      }
+      let successCount = 0;
+      let updatedCount = 0;
+      let skippedCount = 0;
+      const errors = [...pending.errors];
+      const unmatchedAreas: Record<string, number> = {};
+      const emailWarnings: ImportResult['emailWarnings'] = [];
 
-      const headers = parseCsvLine(lines[0]).map(h => h.toLowerCase().replace(/\s+/g, '_'));
-      const dataLines = lines.slice(1);
-      
-      const requiredFields = ['first_name', 'last_name', 'email'];
-      const missingFields = requiredFields.filter(field => !headers.includes(field));
-      
-      if (missingFields.length > 0) {
-        throw new Error(`Missing required columns: ${missingFields.join(', ')}`);
-      }
+      for (let i = 0; i < pending.rows.length; i++) {
+        const row = pending.rows[i];
+        const action = row.duplicates.length > 0 ? actions[row.row] ?? 'skip' : 'create';
+
+        setImportProgress(((i + 1) / pending.rows.length) * 100);
+
+        if (action === 'skip') {
+          skippedCount++;
+          continue;
+        }
 
-      let successCount = 0;
-      const errors: Array<{ row: number; error: string }> = [];
-      
-      for (let i = 0; i < dataLines.length; i++) {
-        const line = dataLines[i];
-        if (!line.trim()) continue;
-        
-        setImportProgress(((i + 1) / dataLines.length) * 100);
-        
         try {
-          const values = parseCsvLine(line);
-          const rowData: any = {};
-          
-          headers.forEach((header, index) => {
-            if (values[index]) {
-              rowData[header] = values[index];
+          const tagIds = row.tagNames.length > 0 ? await resolveTagNames(row.tagNames, pending.tags, user.id) : [];
+
+          if (action === 'update') {
+            const target = row.duplicates[0].lead;
+            // The best match may be an earlier row of this file that was skipped rather than saved
+            if (!target.id) {
+              throw new Error(`Row ${pending.fileRows.get(target)} it duplicates wasn't imported`);
             }
-          });
 
-          // Validate the row data
-          const validatedData = csvImportSchema.parse(rowData);
-          
-          // Convert and prepare for database
-          const leadData = {
-            first_name: validatedData.first_name,
-            last_name: validatedData.last_name,
-            email: validatedData.email,
-            phone: validatedData.phone || null,
-            budget_min: validatedData.budget_min ? parseFloat(validatedData.budget_min) : null,
-            budget_max: validatedData.budget_max ? parseFloat(validatedData.budget_max) : null,
-            preferred_areas: validatedData.preferred_areas ? validatedData.preferred_areas.split(';').map(a => a.trim()) : [],
-            property_type: validatedData.property_type || null,
-            bedrooms: validatedData.bedrooms ? parseInt(validatedData.bedrooms) : null,
-            bathrooms: validatedData.bathrooms ? parseFloat(validatedData.bathrooms) : null,
-            status: (validatedData.status as any) || 'new',
-            source: (validatedData.source as any) || 'other',
-            priority: validatedData.priority ? parseInt(validatedData.priority) : 3,
-            notes: validatedData.notes || null,
-            created_by: user.id,
-          };
-
-          const { error } = await supabase
-            .from('buyer_leads')
-            .insert(leadData);
-
-          if (error) throw error;
-          
-          successCount++;
+            await updateExistingLead(target.id, row);
+            // Tags are only ever added to an existing lead, never removed
+            await setLeadTags(target.id, tagIds);
+            row.candidate.id = target.id;
+            updatedCount++;
+          } else {
+            const { data: newLead, error } = await supabase
+              .from('buyer_leads')
+              .insert(row.lead)
+              .select('id')
+              .single();
+
+            if (error) throw error;
+
+            await setLeadTags(newLead.id, tagIds);
+            row.candidate.id = newLead.id;
+            successCount++;
+          }
+
+          row.unmatchedAreas.forEach(name => {
+            unmatchedAreas[name] = (unmatchedAreas[name] || 0) + 1;
+          });
+          if (row.emailMessages.length > 0) {
+            emailWarnings.push({ row: row.row, email: row.lead.email, messages: row.emailMessages });
+          }
         } catch (error: any) {
           errors.push({
-            row: i + 2, // +2 because we start from line 1 and skip header
+            row: row.row,
             error: error.message || 'Unknown error'
           });
         }
@@ -133,17 +353,20 @@ export default function ImportExport() {
 
       setImportResult({
         success: successCount,
-        errors,
-        total: dataLines.length
+        updated: updatedCount,
+        skipped: skippedCount,
+        errors: errors.sort((a, b) => a.row - b.row),
+        total: pending.total,
+        unmatchedAreas,
+        emailWarnings
       });
 
-      if (successCount > 0) {
+      if (successCount > 0 || updatedCount > 0) {
         toast({
           title: "Import Completed!",
-          description: `Successfully imported ${successCount} leads.`,
+          description: `Imported ${successCount} new leads${updatedCount > 0 ? ` and updated ${updatedCount} existing ones` : ''}.`,
         });
       }
-
     } catch (error: any) {
       toast({
         title: "Import Error",
@@ -153,23 +376,70 @@ export default function ImportExport() {
     } finally {
       setImporting(false);
       setImportProgress(0);
+    }
+  };
+
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !user) return;
+
+    setImportResult(null);
+    setPendingImport(null);
+    setCheckingFile(true);
+
+    try {
+      const pending = await prepareImport(file);
+      setCheckingFile(false);
+      const flagged = pending.rows.filter(row => row.duplicates.length > 0);
+
+      if (flagged.length === 0) {
+        await runImport(pending, {});
+        return;
+      }
+
+      // Likely duplicates default to being skipped; weaker matches default to creating a new lead
+      setDuplicateActions(Object.fromEntries(flagged.map(row => [
+        row.row,
+        isLikelyDuplicate(row.duplicates[0]) ? 'skip' : 'create',
+      ])));
+      setPendingImport(pending);
+    } catch (error: any) {
+      toast({
+        title: "Import Error",
+        description: error.message || "Failed to import CSV file",
+        variant: "destructive",
+      });
+    } finally {
+      setCheckingFile(false);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     }
   };
 
+  const confirmPendingImport = async () => {
+    if (!pendingImport) return;
+
+    const pending = pendingImport;
+    setPendingImport(null);
+    await runImport(pending, duplicateActions);
+  };
+
   const handleExport = async () => {
     if (!user) return;
 
     setExporting(true);
     try {
-      const { data: leads, error } = await supabase
-        .from('buyer_leads')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [{ data: leads, error }, { data: tags, error: tagsError }] = await Promise.all([
+        supabase
+          .from('buyer_leads')
+          .select('*, tag_ids')
+          .order('created_at', { ascending: false }),
+        supabase.from('tags').select('*'),
+      ]);
 
       if (error) throw error;
+      if (tagsError) throw tagsError;
 
       if (!leads || leads.length === 0) {
         toast({
@@ -180,43 +450,7 @@ export default function ImportExport() {
         return;
       }
 
-      // Prepare CSV content
-      const headers = [
-        'first_name', 'last_name', 'email', 'phone', 'budget_min', 'budget_max',
-        'preferred_areas', 'property_type', 'bedrooms', 'bathrooms', 'status',
-        'source', 'priority', 'notes', 'created_at'
-      ];
-
-      const csvContent = [
-        headers.join(','),
-        ...leads.map(lead => 
-          headers.map(header => {
-            let value = lead[header];
-            
-            // Handle special cases
-            if (header === 'preferred_areas' && Array.isArray(value)) {
-              value = value.join(';');
-            } else if (value === null || value === undefined) {
-              value = '';
-            } else if (typeof value === 'string' && value.includes(',')) {
-              value = `"${value}"`;
-            }
-            
-            return value;
-          }).join(',')
-        )
-      ].join('\n');
-
-      // Download file
-      const blob = new Blob([csvContent], { type: 'text/csv' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `leads_export_${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadCsv(buildLeadsCsv(leads, tags || [], customFields), `leads_export_${new Date().toISOString().split('T')[0]}.csv`);
 
       toast({
         title: "Export Successful!",
@@ -236,20 +470,12 @@ export default function ImportExport() {
 
   const downloadSampleCsv = () => {
     const sampleContent = [
-      'first_name,last_name,email,phone,budget_min,budget_max,preferred_areas,property_type,bedrooms,bathrooms,status,source,priority,notes',
-      'John,Doe,john.doe@example.com,+1-555-0123,300000,500000,Downtown;Midtown,Single Family Home,3,2.5,new,website,3,Looking for move-in ready home',
-      'Jane,Smith,jane.smith@example.com,+1-555-0124,200000,350000,Suburbs,Condo,2,2,contacted,referral,4,First-time buyer'
+      'first_name,last_name,email,phone,budget_min,budget_max,preferred_areas,tags,property_type,bedrooms,bathrooms,status,source,priority,notes',
+      'John,Doe,john.doe@example.com,+1-555-201-0123,300000,500000,Downtown;Midtown,relocation;cash buyer,Single Family Home,3,2.5,new,website,3,Looking for move-in ready home',
+      'Jane,Smith,jane.smith@example.com,(555) 201-0124,200000,350000,Suburbs,investor,Condo,2,2,contacted,referral,4,First-time buyer'
     ].join('\n');
 
-    const blob = new Blob([sampleContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'sample_leads_import.csv';
-    document.body.appendChild(a);
-    a.click();
-    window.URL.revokeObjectURL(url);
-    document.body.removeChild(a);
+    downloadCsv(sampleContent, 'sample_leads_import.csv');
   };
 
   return (
@@ -279,10 +505,11 @@ export default function ImportExport() {
                   type="file"
                   accept=".csv"
                   onChange={handleFileImport}
-                  disabled={importing}
+                  disabled={importing || checkingFile || Boolean(pendingImport)}
                 />
                 <p className="text-sm text-muted-foreground">
-                  Upload a CSV file with lead information. Required columns: first_name, last_name, email
+                  Upload a CSV file with lead information. Required columns: first_name, last_name, email.
+                  Rows that match an existing lead by email, phone or name are held for review before anything is saved.
                 </p>
               </div>
 
@@ -295,6 +522,10 @@ export default function ImportExport() {
                 Download Sample CSV
               </Button>
 
+              {checkingFile && (
+                <p className="text-sm text-muted-foreground">Checking the file for duplicate leads...</p>
+              )}
+
               {importing && (
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
@@ -315,12 +546,67 @@ export default function ImportExport() {
                         <Badge variant="default">
                           {importResult.success} successful
                         </Badge>
+                        {importResult.updated > 0 && (
+                          <Badge variant="secondary">
+                            {importResult.updated} updated
+                          </Badge>
+                        )}
+                        {importResult.skipped > 0 && (
+                          <Badge variant="outline">
+                            {importResult.skipped} duplicates skipped
+                          </Badge>
+                        )}
                         {importResult.errors.length > 0 && (
                           <Badge variant="destructive">
                             {importResult.errors.length} errors
                           </Badge>
                         )}
+                        {importResult.emailWarnings.length > 0 && (
+                          <Badge variant="outline">
+                            {importResult.emailWarnings.length} email warnings
+                          </Badge>
+                        )}
+                        {Object.keys(importResult.unmatchedAreas).length > 0 && (
+                          <Badge variant="outline">
+                            {Object.keys(importResult.unmatchedAreas).length} unmatched areas
+                          </Badge>
+                        )}
                       </div>
+                      {importResult.emailWarnings.length > 0 && (
+                        <details className="text-sm">
+                          <summary className="cursor-pointer font-medium">View Email Warnings</summary>
+                          <p className="mt-2 text-muted-foreground">
+                            These leads were imported and flagged. Filter on Data Quality from the Leads page to review them.
+                          </p>
+                          <ul className="mt-2 space-y-1">
+                            {importResult.emailWarnings.slice(0, 10).map((warning) => (
+                              <li key={warning.row}>
+                                Row {warning.row} ({warning.email}): {warning.messages.join('; ')}
+                              </li>
+                            ))}
+                            {importResult.emailWarnings.length > 10 && (
+                              <li className="text-muted-foreground">
+                                ...and {importResult.emailWarnings.length - 10} more
+                              </li>
+                            )}
+                          </ul>
+                        </details>
+                      )}
+                      {Object.keys(importResult.unmatchedAreas).length > 0 && (
+                        <details className="text-sm">
+                          <summary className="cursor-pointer font-medium">View Unmatched Areas</summary>
+                          <p className="mt-2 text-muted-foreground">
+                            These were saved as typed. Add them to the catalog or map them to an existing area from the Areas page.
+                          </p>
+                          <ul className="mt-2 space-y-1">
+                            {Object.entries(importResult.unmatchedAreas).map(([name, count]) => (
+                              <li key={name}>
+                                {name} <span className="text-muted-foreground">({count} {count === 1 ? 'lead' : 'leads'})</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
                       {importResult.errors.length > 0 && (
                         <details className="text-sm">
                           <summary className="cursor-pointer font-medium">View Errors</summary>
@@ -380,6 +666,78 @@ export default function ImportExport() {
           </Card>
         </div>
 
+        {pendingImport && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                Review Possible Duplicates
+              </CardTitle>
+              <CardDescription>
+                {pendingImport.rows.filter(row => row.duplicates.length > 0).length} of {pendingImport.rows.length} rows
+                look like leads that already exist. Choose what to do with each before importing; updating fills in
+                the existing lead with the row's non-blank columns and adds its tags.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="divide-y">
+                {pendingImport.rows.filter(row => row.duplicates.length > 0).map(row => {
+                  const match = row.duplicates[0];
+                  const fileRow = pendingImport.fileRows.get(match.lead);
+
+                  return (
+                    <li key={row.row} className="flex flex-col gap-2 py-3 md:flex-row md:items-center md:justify-between">
+                      <div className="space-y-1 text-sm">
+                        <p>
+                          <span className="font-medium">Row {row.row}:</span> {row.lead.first_name} {row.lead.last_name}
+                          {' '}<span className="text-muted-foreground">{row.lead.email}</span>
+                        </p>
+                        <p className="text-muted-foreground">
+                          Matches{' '}
+                          {fileRow ? (
+                            <>row {fileRow} of this file ({match.reasons.join(', ')})</>
+                          ) : (
+                            <DuplicateMatchSummary match={match} />
+                          )}
+                          {row.duplicates.length > 1 && ` and ${row.duplicates.length - 1} more`}
+                        </p>
+                      </div>
+                      <Select
+                        value={duplicateActions[row.row]}
+                        onValueChange={(value) => setDuplicateActions(prev => ({ ...prev, [row.row]: value as DuplicateAction }))}
+                      >
+                        <SelectTrigger className="md:w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(duplicateActionLabels).map(([action, label]) => (
+                            <SelectItem key={action} value={action}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              {pendingImport.errors.length > 0 && (
+                <p className="text-sm text-destructive">
+                  {pendingImport.errors.length} rows have errors and will not be imported.
+                </p>
+              )}
+
+              <div className="flex justify-end gap-4">
+                <Button variant="outline" onClick={() => setPendingImport(null)}>
+                  Cancel Import
+                </Button>
+                <Button onClick={confirmPendingImport}>
+                  Continue Import
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* CSV Format Guide */}
         <Card>
           <CardHeader>
@@ -394,18 +752,26 @@ export default function ImportExport() {
               <ul className="text-sm space-y-1 text-muted-foreground">
                 <li>• <code>first_name</code> - Lead's first name</li>
                 <li>• <code>last_name</code> - Lead's last name</li>
-                <li>• <code>email</code> - Valid email address</li>
+                <li>• <code>email</code> - Valid email address; likely typos, disposable domains and shared inboxes like info@ are imported but flagged</li>
               </ul>
             </div>
 
             <div className="space-y-2">
               <h4 className="font-semibold">Optional Columns:</h4>
               <ul className="text-sm space-y-1 text-muted-foreground">
-                <li>• <code>phone</code> - Phone number</li>
+                <li>
+                  • <code>phone</code> - Phone number; numbers without a country code are read as
+                  {' '}{phoneCountryInfo[preferences.phone_country].name} numbers (change this in Settings)
+                </li>
                 <li>• <code>budget_min</code> - Minimum budget (number)</li>
                 <li>• <code>budget_max</code> - Maximum budget (number)</li>
-                <li>• <code>preferred_areas</code> - Areas separated by semicolon (;)</li>
-                <li>• <code>property_type</code> - Type of property seeking</li>
+                <li>• <code>preferred_areas</code> - Areas separated by semicolon (;); names are matched to the areas catalog, including aliases and small typos</li>
+                <li>• <code>tags</code> - Tag names separated by semicolon (;); unknown tags are created</li>
+                <li>
+                  • <code>property_type</code> - {propertyTypes.map(type => propertyTypeLabels[type]).join(', ')}; common
+                  variants like "Single Family Home" or "Duplex" are recognised, and anything else is imported as Other
+                  with the original text added to the notes
+                </li>
                 <li>• <code>bedrooms</code> - Number of bedrooms (integer)</li>
                 <li>• <code>bathrooms</code> - Number of bathrooms (decimal)</li>
                 <li>• <code>status</code> - new, contacted, qualified, not_qualified, closed</li>
@@ -414,6 +780,23 @@ export default function ImportExport() {
                 <li>• <code>notes</code> - Additional notes</li>
               </ul>
             </div>
+
+            {customFields.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold">Custom Columns:</h4>
+                <ul className="text-sm space-y-1 text-muted-foreground">
+                  {customFields.map((field) => (
+                    <li key={field.id}>
+                      • <code>{field.key}</code> - {field.label} ({customFieldTypeLabels[field.field_type as CustomFieldType]}
+                      {field.field_type === 'select' && `: ${field.options.join(', ')}`}
+                      {field.field_type === 'date' && ', YYYY-MM-DD'}
+                      {field.field_type === 'boolean' && ', yes or no'}
+                      {field.required && ', required'})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,514 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Edit, Mail, Phone, Clock, CheckCircle, MessageSquarePlus, MessageSquare, History, AlertTriangle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamMembers } from "@/hooks/useTeamMembers";
+import { AgentSelect } from "@/components/AgentSelect";
+import { CompleteFollowUpDialog } from "@/components/CompleteFollowUpDialog";
+import { LogInteractionDialog } from "@/components/LogInteractionDialog";
+import { assignLead } from "@/lib/assignments";
+import { formatBudget, getPriorityColor, getStatusColor } from "@/lib/leads";
+import { activityTypeLabels, parseActivity, tryRecordActivities, TypedActivity } from "@/lib/activities";
+import { getScoreColor, parseScoreFactors } from "@/lib/scoring";
+import { setLeadTags, tagChangeActivity } from "@/lib/tags";
+import { useTags } from "@/hooks/useTags";
+import { TagPicker } from "@/components/TagPicker";
+import { PhoneLink } from "@/components/PhoneLink";
+import { DataQualityFlag, dataQualityFlagLabels } from "@/lib/emailQuality";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { formatCustomValue, getCustomValues } from "@/lib/customFields";
+import { formatPropertyType, isPropertyType, propertyTypeAttributes } from "@/lib/propertyTypes";
+
+type Lead = Tables<'buyer_leads'>;
+
+type TimelineEntry = TypedActivity & {
+  author_name: string;
+};
+
+export default function LeadDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [lead, setLead] = useState<Lead | null>(null);
+  const [activities, setActivities] = useState<TimelineEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [assigning, setAssigning] = useState(false);
+  const [completingFollowUp, setCompletingFollowUp] = useState(false);
+  const [loggingInteraction, setLoggingInteraction] = useState(false);
+  const [savingTags, setSavingTags] = useState(false);
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { role } = useProfile();
+  const { toast } = useToast();
+  const { agents, getMemberName } = useTeamMembers();
+  const { tags, addTag, getTagName } = useTags();
+  const { customFields } = useCustomFields();
+
+  useEffect(() => {
+    if (user && id) {
+      fetchLead();
+    }
+  }, [user, id]);
+
+  const fetchLead = async () => {
+    try {
+      const { data: leadData, error: leadError } = await supabase
+        .from('buyer_leads')
+        .select('*, lead_score, lead_score_factors, tag_ids')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (leadError) throw leadError;
+      setLead(leadData);
+
+      if (!leadData) return;
+
+      const { data: activityData, error: activityError } = await supabase
+        .from('lead_activities')
+        .select('*')
+        .eq('lead_id', id)
+        .order('created_at', { ascending: false });
+
+      if (activityError) throw activityError;
+
+      // lead_activities.user_id references auth.users, so authors are resolved through profiles
+      const authorIds = [...new Set((activityData || []).map(a => a.user_id).filter(Boolean))];
+      const authorNames: Record<string, string> = {};
+
+      if (authorIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', authorIds);
+
+        if (profilesError) throw profilesError;
+
+        profiles?.forEach(profile => {
+          authorNames[profile.user_id] = profile.full_name || 'Unknown user';
+        });
+      }
+
+      setActivities((activityData || []).map(activity => ({
+        ...parseActivity(activity),
+        author_name: activity.user_id ? authorNames[activity.user_id] || 'Unknown user' : 'System',
+      })));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch lead",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTags = async (tagIds: string[]) => {
+    if (!lead) return;
+
+    setSavingTags(true);
+    try {
+      await setLeadTags(lead.id, tagIds, lead.tag_ids || []);
+      setLead({ ...lead, tag_ids: tagIds });
+
+      const activity = user && tagChangeActivity({
+        leadId: lead.id,
+        actorId: user.id,
+        from: lead.tag_ids || [],
+        to: tagIds,
+        getTagName,
+      });
+      if (!activity) return;
+
+      const activityError = await tryRecordActivities([activity]);
+      if (activityError) {
+        toast({
+          title: "Partially completed",
+          description: `The tags were saved, but the activity log could not be updated: ${activityError}`,
+          variant: "destructive",
+        });
+      }
+      fetchLead();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update tags",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingTags(false);
+    }
+  };
+
+  const reassign = async (assignee: string | null) => {
+    if (!user || !lead || assignee === lead.assigned_to) return;
+
+    setAssigning(true);
+    try {
+      await assignLead({
+        leadId: lead.id,
+        actorId: user.id,
+        from: lead.assigned_to,
+        to: assignee,
+        getMemberName,
+      });
+
+      toast({
+        title: "Success!",
+        description: assignee ? `Lead assigned to ${getMemberName(assignee)}.` : "Lead is now unassigned.",
+      });
+
+      fetchLead();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to assign lead",
+        variant: "destructive",
+      });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : 'N/A';
+  };
+
+  const formatDateTime = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleString() : 'N/A';
+  };
+
+  const formatMetadataValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return 'empty';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const getMetadataEntries = (activity: TimelineEntry): Array<[string, string]> => {
+    if (!activity.metadata) return [];
+
+    if (activity.activity_type === 'lead_updated') {
+      return Object.entries(activity.metadata.changes).map(([field, change]) => [
+        field,
+        `${formatMetadataValue(change.from)} → ${formatMetadataValue(change.to)}`,
+      ]);
+    }
+
+    return Object.entries(activity.metadata)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key, formatMetadataValue(value)]);
+  };
+
+  const renderMetadata = (activity: TimelineEntry) => {
+    const entries = getMetadataEntries(activity);
+    if (entries.length === 0) return null;
+
+    return (
+      <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {entries.map(([key, value]) => (
+          <div key={key} className="contents">
+            <dt className="font-medium capitalize">{key.replace(/_/g, ' ')}</dt>
+            <dd className="break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!lead) {
+    return (
+      <Layout>
+        <div className="p-6 text-center space-y-4">
+          <p className="text-muted-foreground">Lead not found</p>
+          <Button variant="outline" onClick={() => navigate('/leads')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Leads
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Mirrors the buyer_leads update policy, which also governs who may change a lead's tags
+  const canEdit = role === 'admin' || lead.created_by === user?.id || lead.assigned_to === user?.id;
+
+  const propertyDetails = getCustomValues(lead.property_details);
+
+  const details: Array<{ label: string; value: React.ReactNode }> = [
+    { label: "Email", value: lead.email },
+    { label: "Phone", value: <PhoneLink phone={lead.phone} /> },
+    { label: "Budget", value: formatBudget(lead.budget_min, lead.budget_max) },
+    { label: "Property Type", value: formatPropertyType(lead.property_type) },
+    ...(isPropertyType(lead.property_type) ? propertyTypeAttributes[lead.property_type] : [])
+      .filter(attr => propertyDetails[attr.key] !== undefined)
+      .map(attr => ({ label: attr.label, value: formatCustomValue(attr, propertyDetails[attr.key]) })),
+    { label: "Bedrooms", value: lead.bedrooms ?? 'N/A' },
+    { label: "Bathrooms", value: lead.bathrooms ?? 'N/A' },
+    { label: "Source", value: <span className="capitalize">{lead.source?.replace('_', ' ') || 'N/A'}</span> },
+    { label: "Last Contacted", value: formatDateTime(lead.last_contacted) },
+    { label: "Next Follow-up", value: formatDateTime(lead.next_follow_up) },
+    { label: "Created", value: formatDateTime(lead.created_at) },
+    { label: "Updated", value: formatDateTime(lead.updated_at) },
+  ];
+
+  const customValues = getCustomValues(lead.custom_values);
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div className="flex justify-between items-start">
+          <div className="space-y-2">
+            <Button variant="ghost" size="sm" onClick={() => navigate('/leads')}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              All Leads
+            </Button>
+            <h1 className="text-3xl font-bold">{lead.first_name} {lead.last_name}</h1>
+            <div className="flex items-center gap-2">
+              {lead.status && (
+                <Badge variant="outline" className={`border-${getStatusColor(lead.status)}-500 text-${getStatusColor(lead.status)}-700`}>
+                  {lead.status.replace('_', ' ')}
+                </Badge>
+              )}
+              <Badge variant={getPriorityColor(lead.priority)}>
+                Priority {lead.priority}
+              </Badge>
+              {lead.data_quality_flags.map(flag => (
+                <Badge key={flag} variant="outline" className="border-amber-500 text-amber-700">
+                  <AlertTriangle className="mr-1 h-3 w-3" />
+                  {dataQualityFlagLabels[flag as DataQualityFlag] ?? flag}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <a href={`mailto:${lead.email}`}>
+                <Mail className="mr-2 h-4 w-4" />
+                Email
+              </a>
+            </Button>
+            {lead.phone && (
+              <Button variant="outline" asChild>
+                <a href={`tel:${lead.phone}`}>
+                  <Phone className="mr-2 h-4 w-4" />
+                  Call
+                </a>
+              </Button>
+            )}
+            {lead.phone && (
+              <Button variant="outline" asChild>
+                <a href={`sms:${lead.phone}`}>
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  Text
+                </a>
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setLoggingInteraction(true)}>
+              <MessageSquarePlus className="mr-2 h-4 w-4" />
+              Log Interaction
+            </Button>
+            {lead.next_follow_up && (
+              <Button variant="outline" onClick={() => setCompletingFollowUp(true)}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Follow-up Done
+              </Button>
+            )}
+            {role === 'admin' && (
+              <Button variant="outline" onClick={() => navigate(`/admin/audit-log?lead=${lead.id}`)}>
+                <History className="mr-2 h-4 w-4" />
+                Audit History
+              </Button>
+            )}
+            <Button onClick={() => navigate(`/leads/${lead.id}/edit`)}>
+              <Edit className="mr-2 h-4 w-4" />
+              Edit Lead
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-1">
+            <Card>
+              <CardHeader>
+                <CardTitle>Lead Details</CardTitle>
+                <CardDescription>Contact information and property preferences</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <dl className="space-y-3">
+                  {details.map(({ label, value }) => (
+                    <div key={label} className="flex justify-between gap-4 text-sm">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="font-medium text-right break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                <Separator className="my-4" />
+
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Assigned To</p>
+                  <AgentSelect
+                    agents={agents}
+                    value={lead.assigned_to}
+                    onChange={reassign}
+                    disabled={assigning}
+                  />
+                </div>
+
+                <Separator className="my-4" />
+
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Preferred Areas</p>
+                  <div className="flex flex-wrap gap-2">
+                    {lead.preferred_areas && lead.preferred_areas.length > 0
+                      ? lead.preferred_areas.map(area => (
+                          <Badge key={area} variant="secondary">{area}</Badge>
+                        ))
+                      : <span className="text-sm">N/A</span>}
+                  </div>
+                </div>
+
+                <Separator className="my-4" />
+
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Tags</p>
+                  <TagPicker
+                    tags={tags}
+                    selectedIds={lead.tag_ids || []}
+                    onChange={updateTags}
+                    onCreate={(name) => addTag({ name, color: 'gray' })}
+                    disabled={savingTags || !canEdit}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {customFields.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Additional Details</CardTitle>
+                  <CardDescription>Fields your team tracks on every buyer</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <dl className="space-y-3">
+                    {customFields.map((field) => (
+                      <div key={field.id} className="flex justify-between gap-4 text-sm">
+                        <dt className="text-muted-foreground">{field.label}</dt>
+                        <dd className="font-medium text-right break-all">{formatCustomValue(field, customValues[field.key])}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  Lead Score
+                  <Badge variant="outline" className={`text-base ${getScoreColor(lead.lead_score ?? 0)}`}>
+                    {lead.lead_score ?? 0}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>What is driving this score, strongest factors first</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {parseScoreFactors(lead.lead_score_factors).map((factor) => (
+                  <div key={factor.signal} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">{factor.label}</span>
+                      <span className="text-muted-foreground">{factor.points} / {factor.weight} pts</span>
+                    </div>
+                    <Progress value={factor.value * 100} className="h-2" />
+                    <p className="text-xs text-muted-foreground">{factor.detail}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm whitespace-pre-wrap">
+                  {lead.notes || <span className="text-muted-foreground">No notes for this lead</span>}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Activity Timeline
+              </CardTitle>
+              <CardDescription>Everything that has happened on this lead, newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {activities.length > 0 ? (
+                <ol className="relative border-l ml-2 space-y-6">
+                  {activities.map((activity) => (
+                    <li key={activity.id} className="ml-6">
+                      <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-primary" />
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">
+                          {activityTypeLabels[activity.activity_type]}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {activity.author_name} · {formatDateTime(activity.created_at)}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-sm">{activity.description}</p>
+                      {renderMetadata(activity)}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-center text-muted-foreground py-8">
+                  No activity recorded for this lead since {formatDate(lead.created_at)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <CompleteFollowUpDialog
+          lead={completingFollowUp ? lead : null}
+          onOpenChange={setCompletingFollowUp}
+          onCompleted={fetchLead}
+        />
+
+        <LogInteractionDialog
+          leadId={lead.id}
+          leadName={`${lead.first_name} ${lead.last_name}`}
+          open={loggingInteraction}
+          onOpenChange={setLoggingInteraction}
+          onLogged={fetchLead}
+        />
+      </div>
+    </Layout>
+  );
+}
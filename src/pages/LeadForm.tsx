@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useNavigate } from "react-router-dom";
+import { format, parse } from "date-fns";
+import { useNavigate, useParams } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,37 +24,304 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Badge } from "@/components/ui/badge";
-import { X } from "lucide-react";
-import { leadSchema, LeadFormData } from "@/lib/validations";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { extendLeadSchema, LeadFormData } from "@/lib/validations";
 import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { useTeamMembers } from "@/hooks/useTeamMembers";
+import { AgentSelect } from "@/components/AgentSelect";
+import { assignmentActivity } from "@/lib/assignments";
+import { ActivityInput, ActivityType, tryRecordActivities } from "@/lib/activities";
+import { useTags } from "@/hooks/useTags";
+import { TagPicker } from "@/components/TagPicker";
+import { setLeadTags, tagChangeActivity } from "@/lib/tags";
+import { getErrorMessage } from "@/lib/utils";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useAreas } from "@/hooks/useAreas";
+import { useProfile } from "@/hooks/useProfile";
+import { AreaPicker } from "@/components/AreaPicker";
+import { CustomFieldInput } from "@/components/CustomFieldInput";
+import {
+  buildCustomValuesSchema,
+  compactCustomValues,
+  CustomFieldDefinition,
+  getCustomValues,
+} from "@/lib/customFields";
+import {
+  allPropertyAttributes,
+  isPropertyType,
+  pickPropertyDetails,
+  propertyTypeAttributes,
+  propertyTypeLabels,
+} from "@/lib/propertyTypes";
+import { propertyTypes } from "@/lib/validations";
+import { formatPhone, phoneCountryInfo } from "@/lib/phone";
+import { checkEmailQuality, getEmailQualityFlags } from "@/lib/emailQuality";
+import { DuplicateMatch, fetchDuplicates } from "@/lib/duplicates";
+import { DuplicateMatchSummary } from "@/components/DuplicateMatchSummary";
+
+type Lead = Omit<Tables<'buyer_leads'>, 'lead_score' | 'lead_score_factors' | 'tag_ids'>;
+
+type FieldChange = { from: unknown; to: unknown };
+
+const NOT_SPECIFIED = "__not_specified";
+
+// Editing any of these means the lead could now match a different existing one
+const duplicateMatchFields = ['first_name', 'last_name', 'email', 'phone'];
+
+const normalizeValue = (key: string, value: unknown) => {
+  if (value === undefined || value === '') return null;
+  if ((key === 'next_follow_up' || key === 'last_contacted') && typeof value === 'string') {
+    return new Date(value).toISOString();
+  }
+  if (Array.isArray(value) && value.length === 0) return null;
+  // custom_values comes back from jsonb with its keys reordered, so compare objects key-sorted
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+  }
+  return value;
+};
+
+// Field-level before/after values for every column the update actually changes
+const diffLead = (original: Lead, updates: TablesUpdate<'buyer_leads'>) => {
+  const changes: Record<string, FieldChange> = {};
+
+  Object.entries(updates).forEach(([key, value]) => {
+    const before = normalizeValue(key, original[key as keyof Lead]);
+    const after = normalizeValue(key, value);
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes[key] = { from: before, to: after };
+    }
+  });
+
+  return changes;
+};
+
+// Reports custom field and property attribute edits under their own labels rather than as one opaque
+// custom_values or property_details change
+const expandJsonChanges = (
+  changes: Record<string, FieldChange>,
+  column: 'custom_values' | 'property_details',
+  definitions: CustomFieldDefinition[],
+) => {
+  const { [column]: jsonChange, ...expanded } = changes;
+  if (!jsonChange) return changes;
+
+  const before = getCustomValues(jsonChange.from as Json);
+  const after = getCustomValues(jsonChange.to as Json);
+
+  definitions.forEach(field => {
+    if (JSON.stringify(before[field.key]) !== JSON.stringify(after[field.key])) {
+      expanded[field.label] = { from: before[field.key] ?? null, to: after[field.key] ?? null };
+    }
+  });
+
+  return expanded;
+};
 
 export default function LeadForm() {
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
   const [loading, setLoading] = useState(false);
+  const [loadingLead, setLoadingLead] = useState(isEditing);
+  const [originalLead, setOriginalLead] = useState<Lead | null>(null);
   const [areas, setAreas] = useState<string[]>([]);
-  const [newArea, setNewArea] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [originalTagIds, setOriginalTagIds] = useState<string[]>([]);
+  // Matches found on the last save attempt; saving again with the same name, email and phone goes ahead
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
+  const { agents, getMemberName } = useTeamMembers();
+  const { tags, addTag, getTagName } = useTags();
+  const { customFields } = useCustomFields();
+  const { areas: areaCatalog } = useAreas();
+  const { preferences } = useProfile();
+  const phoneCountry = preferences.phone_country;
+
+  // Rebuilt once the admin's field definitions and the user's preferences load; react-hook-form picks up
+  // the new resolver on render
+  const schema = useMemo(
+    () => extendLeadSchema(buildCustomValuesSchema(customFields), phoneCountry),
+    [customFields, phoneCountry],
+  );
 
   const form = useForm<LeadFormData>({
-    resolver: zodResolver(leadSchema),
+    resolver: zodResolver(schema),
     defaultValues: {
       status: 'new',
       source: 'website',
       priority: 3,
       preferred_areas: [],
+      custom_values: {},
+      property_details: {},
     },
   });
 
+  const propertyType = form.watch('property_type');
+  // Warnings only: a flagged address can still be saved, and the flags are stored on the lead
+  const emailQuality = checkEmailQuality(form.watch('email'));
+  const emailSuggestion = emailQuality.suggestion;
+  const propertyAttributes = propertyType ? propertyTypeAttributes[propertyType] : [];
+
+  useEffect(() => {
+    if (user && id) {
+      fetchLead();
+    }
+  }, [user, id]);
+
+  useEffect(() => {
+    const subscription = form.watch((_, { name }) => {
+      if (name && duplicateMatchFields.includes(name)) setDuplicates(null);
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const fetchLead = async () => {
+    try {
+      const { data: lead, error } = await supabase
+        .from('buyer_leads')
+        .select('*, tag_ids')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      setOriginalLead(lead);
+      setAreas(lead.preferred_areas || []);
+      setTagIds(lead.tag_ids || []);
+      setOriginalTagIds(lead.tag_ids || []);
+      form.reset({
+        first_name: lead.first_name,
+        last_name: lead.last_name,
+        email: lead.email,
+        phone: formatPhone(lead.phone) || undefined,
+        budget_min: lead.budget_min ?? undefined,
+        budget_max: lead.budget_max ?? undefined,
+        preferred_areas: lead.preferred_areas || [],
+        property_type: isPropertyType(lead.property_type) ? lead.property_type : undefined,
+        property_details: getCustomValues(lead.property_details),
+        bedrooms: lead.bedrooms ?? undefined,
+        bathrooms: lead.bathrooms ?? undefined,
+        status: lead.status || 'new',
+        source: lead.source || 'website',
+        priority: lead.priority ?? 3,
+        notes: lead.notes || undefined,
+        next_follow_up: lead.next_follow_up ? new Date(lead.next_follow_up) : undefined,
+        assigned_to: lead.assigned_to,
+        custom_values: getCustomValues(lead.custom_values),
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load lead",
+        variant: "destructive",
+      });
+      navigate('/leads');
+    } finally {
+      setLoadingLead(false);
+    }
+  };
+
+  // Tags are saved after the lead row, so a failure here leaves the lead saved and is reported as partial
+  const trySaveTags = async (leadId: string, currentTagIds: string[] = []) => {
+    try {
+      await setLeadTags(leadId, tagIds, currentTagIds);
+      return null;
+    } catch (error: unknown) {
+      return getErrorMessage(error, 'Failed to save tags');
+    }
+  };
+
+  const toastSaved = (verb: 'created' | 'updated', tagError: string | null, activityError: string | null) => {
+    const failures = [
+      tagError ? `its tags could not be saved: ${tagError}` : null,
+      activityError ? `the activity log could not be updated: ${activityError}` : null,
+    ].filter(Boolean);
+
+    toast(failures.length > 0
+      ? {
+        title: "Partially completed",
+        description: `The lead was ${verb}, but ${failures.join('; and ')}`,
+        variant: "destructive",
+      }
+      : {
+        title: "Success!",
+        description: `Lead has been ${verb} successfully.`,
+      });
+  };
+
+  const updateLead = async (leadData: TablesUpdate<'buyer_leads'>) => {
+    if (!user || !originalLead) return;
+
+    // Reassignments get their own activity with the previous and new owner, and quality flags follow the
+    // email change that caused them
+    const { assigned_to: _assignedTo, data_quality_flags: _flags, ...changes } = expandJsonChanges(
+      expandJsonChanges(diffLead(originalLead, leadData), 'custom_values', customFields),
+      'property_details',
+      allPropertyAttributes,
+    );
+
+    const { data: updatedLead, error } = await supabase
+      .from('buyer_leads')
+      .update(leadData)
+      .eq('id', originalLead.id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    // RLS skips rows the user can't edit rather than raising, so no row back means nothing was saved
+    if (!updatedLead) throw new Error("You don't have permission to edit this lead");
+
+    const tagError = await trySaveTags(originalLead.id, originalTagIds);
+
+    const activities: ActivityInput<ActivityType>[] = [];
+    const changedFields = Object.keys(changes);
+    if (changedFields.length > 0) {
+      activities.push({
+        leadId: originalLead.id,
+        actorId: user.id,
+        type: 'lead_updated',
+        description: `Updated ${changedFields.map(field => field.replace(/_/g, ' ')).join(', ')}`,
+        metadata: { changes },
+      });
+    }
+
+    if ((leadData.assigned_to ?? null) !== originalLead.assigned_to) {
+      activities.push(assignmentActivity({
+        leadId: originalLead.id,
+        actorId: user.id,
+        from: originalLead.assigned_to,
+        to: leadData.assigned_to ?? null,
+        getMemberName,
+      }));
+    }
+
+    const tagActivity = !tagError && tagChangeActivity({
+      leadId: originalLead.id,
+      actorId: user.id,
+      from: originalTagIds,
+      to: tagIds,
+      getTagName,
+    });
+    if (tagActivity) activities.push(tagActivity);
+
+    toastSaved('updated', tagError, await tryRecordActivities(activities));
+
+    navigate(`/leads/${originalLead.id}`);
+  };
+
   const onSubmit = async (data: LeadFormData) => {
     if (!user) return;
 
     setLoading(true);
     try {
-      const leadData = {
+      const leadFields = {
         first_name: data.first_name,
         last_name: data.last_name,
         email: data.email,
@@ -62,6 +330,7 @@ export default function LeadForm() {
         budget_max: data.budget_max || null,
         preferred_areas: areas,
         property_type: data.property_type || null,
+        property_details: pickPropertyDetails(data.property_type, data.property_details),
         bedrooms: data.bedrooms || null,
         bathrooms: data.bathrooms || null,
         status: data.status,
@@ -69,46 +338,69 @@ export default function LeadForm() {
         priority: data.priority,
         notes: data.notes || null,
         next_follow_up: data.next_follow_up?.toISOString() || null,
-        created_by: user.id,
+        assigned_to: data.assigned_to || null,
+        custom_values: compactCustomValues(data.custom_values),
+        data_quality_flags: getEmailQualityFlags(data.email),
       };
 
-      const { error } = await supabase
-        .from('buyer_leads')
-        .insert(leadData);
+      // Only checked when the details that identify the buyer are new or changed, so an existing pair of
+      // duplicates doesn't nag on every edit
+      const identityChanged = !originalLead || duplicateMatchFields.some(
+        key => leadFields[key as keyof typeof leadFields] !== originalLead[key as keyof Lead]
+      );
+      if (identityChanged && !duplicates) {
+        const [matches] = await fetchDuplicates([leadFields], originalLead?.id);
+        if (matches.length > 0) {
+          setDuplicates(matches);
+          return;
+        }
+      }
 
-      if (error) throw error;
+      if (isEditing) {
+        await updateLead(leadFields);
+        return;
+      }
 
-      // Log activity
-      const { data: newLead } = await supabase
+      const leadData = {
+        ...leadFields,
+        created_by: user.id,
+      };
+
+      const { data: newLead, error } = await supabase
         .from('buyer_leads')
+        .insert(leadData)
         .select('id')
-        .eq('email', data.email)
-        .eq('created_by', user.id)
-        .order('created_at', { ascending: false })
-        .limit(1)
         .single();
 
-      if (newLead) {
-        await supabase
-          .from('lead_activities')
-          .insert({
-            lead_id: newLead.id,
-            user_id: user.id,
-            activity_type: 'lead_created',
-            description: `Lead created for ${data.first_name} ${data.last_name}`,
-          });
+      if (error) throw error;
+
+      const tagError = await trySaveTags(newLead.id);
+
+      const activities: ActivityInput<ActivityType>[] = [{
+        leadId: newLead.id,
+        actorId: user.id,
+        type: 'lead_created',
+        description: `Lead created for ${data.first_name} ${data.last_name}`,
+        metadata: {},
+      }];
+
+      if (leadData.assigned_to) {
+        activities.push(assignmentActivity({
+          leadId: newLead.id,
+          actorId: user.id,
+          from: null,
+          to: leadData.assigned_to,
+          getMemberName,
+        }));
       }
 
-      toast({
-        title: "Success!",
-        description: "Lead has been created successfully.",
-      });
+      toastSaved('created', tagError, await tryRecordActivities(activities));
 
       navigate('/leads');
     } catch (error: any) {
       toast({
         title: "Error",
-        description: error.message || "Failed to create lead",
+        description: error.message || `Failed to ${isEditing ? 'update' : 'create'} lead`,
         variant: "destructive",
       });
     } finally {
@@ -116,30 +408,36 @@ export default function LeadForm() {
     }
   };
 
-  const addArea = () => {
-    if (newArea.trim() && !areas.includes(newArea.trim())) {
-      setAreas([...areas, newArea.trim()]);
-      setNewArea("");
-    }
-  };
-
-  const removeArea = (area: string) => {
-    setAreas(areas.filter(a => a !== area));
-  };
+  if (loadingLead) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="max-w-2xl mx-auto animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+            <div className="h-96 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
 
   return (
     <Layout>
       <div className="p-6">
         <div className="max-w-2xl mx-auto space-y-6">
           <div>
-            <h1 className="text-3xl font-bold">Add New Lead</h1>
-            <p className="text-muted-foreground">Create a new buyer lead in the system</p>
+            <h1 className="text-3xl font-bold">{isEditing ? "Edit Lead" : "Add New Lead"}</h1>
+            <p className="text-muted-foreground">
+              {isEditing ? "Update the details of this buyer lead" : "Create a new buyer lead in the system"}
+            </p>
           </div>
 
           <Card>
             <CardHeader>
               <CardTitle>Lead Information</CardTitle>
-              <CardDescription>Fill in the details for the new buyer lead</CardDescription>
+              <CardDescription>
+                {isEditing ? "Changes are recorded in the lead's activity timeline" : "Fill in the details for the new buyer lead"}
+              </CardDescription>
             </CardHeader>
             <CardContent>
               <Form {...form}>
@@ -184,6 +482,23 @@ export default function LeadForm() {
                           <FormControl>
                             <Input type="email" placeholder="john@example.com" {...field} />
                           </FormControl>
+                          {emailQuality.issues.map(issue => (
+                            <p key={issue.flag} className="flex items-center gap-1 text-sm text-amber-600">
+                              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                              {issue.message}
+                              {issue.flag === 'email_typo' && emailSuggestion && (
+                                <Button
+                                  type="button"
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-amber-700"
+                                  onClick={() => form.setValue('email', emailSuggestion, { shouldDirty: true, shouldValidate: true })}
+                                >
+                                  Use it
+                                </Button>
+                              )}
+                            </p>
+                          ))}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -196,8 +511,11 @@ export default function LeadForm() {
                         <FormItem>
                           <FormLabel>Phone</FormLabel>
                           <FormControl>
-                            <Input placeholder="+1 (555) 123-4567" {...field} />
+                            <Input placeholder="+1 (555) 201-0123" {...field} />
                           </FormControl>
+                          <FormDescription>
+                            Numbers without a country code are read as {phoneCountryInfo[phoneCountry].name} numbers
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -246,27 +564,20 @@ export default function LeadForm() {
 
                   <div>
                     <FormLabel>Preferred Areas</FormLabel>
-                    <div className="flex gap-2 mb-2">
-                      <Input
-                        value={newArea}
-                        onChange={(e) => setNewArea(e.target.value)}
-                        placeholder="Enter area name"
-                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addArea())}
-                      />
-                      <Button type="button" onClick={addArea} variant="outline">
-                        Add
-                      </Button>
+                    <div className="mt-2">
+                      <AreaPicker areas={areaCatalog} selected={areas} onChange={setAreas} />
                     </div>
-                    <div className="flex flex-wrap gap-2">
-                      {areas.map((area) => (
-                        <Badge key={area} variant="secondary" className="flex items-center gap-1">
-                          {area}
-                          <X 
-                            className="h-3 w-3 cursor-pointer" 
-                            onClick={() => removeArea(area)}
-                          />
-                        </Badge>
-                      ))}
+                  </div>
+
+                  <div>
+                    <FormLabel>Tags</FormLabel>
+                    <div className="mt-2">
+                      <TagPicker
+                        tags={tags}
+                        selectedIds={tagIds}
+                        onChange={setTagIds}
+                        onCreate={(name) => addTag({ name, color: 'gray' })}
+                      />
                     </div>
                   </div>
 
@@ -277,9 +588,22 @@ export default function LeadForm() {
                       render={({ field }) => (
                         <FormItem>
                           <FormLabel>Property Type</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Single Family Home" {...field} />
-                          </FormControl>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === NOT_SPECIFIED ? undefined : value)}
+                            value={field.value || NOT_SPECIFIED}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+                              {propertyTypes.map(type => (
+                                <SelectItem key={type} value={type}>{propertyTypeLabels[type]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <FormMessage />
                         </FormItem>
                       )}
@@ -325,6 +649,27 @@ export default function LeadForm() {
                     />
                   </div>
 
+                  {propertyAttributes.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {propertyAttributes.map((attr) => (
+                        <FormField
+                          key={attr.key}
+                          control={form.control}
+                          name={`property_details.${attr.key}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{attr.label}</FormLabel>
+                              <FormControl>
+                                <CustomFieldInput field={attr} value={field.value} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                     <FormField
                       control={form.control}
@@ -403,6 +748,62 @@ export default function LeadForm() {
                     />
                   </div>
 
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="assigned_to"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Assigned To</FormLabel>
+                          <FormControl>
+                            <AgentSelect agents={agents} value={field.value} onChange={field.onChange} />
+                          </FormControl>
+                          <FormDescription>The agent responsible for following up with this lead</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="next_follow_up"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Next Follow-up</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              value={field.value ? format(field.value, 'yyyy-MM-dd') : ''}
+                              onChange={(e) => field.onChange(e.target.value ? parse(e.target.value, 'yyyy-MM-dd', new Date()) : undefined)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  {customFields.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {customFields.map((customField) => (
+                        <FormField
+                          key={customField.id}
+                          control={form.control}
+                          name={`custom_values.${customField.key}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>{customField.label}{customField.required && ' *'}</FormLabel>
+                              <FormControl>
+                                <CustomFieldInput field={customField} value={field.value} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
+
                   <FormField
                     control={form.control}
                     name="notes"
@@ -421,16 +822,41 @@ export default function LeadForm() {
                     )}
                   />
 
+                  {duplicates && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        <div className="space-y-2">
+                          <p className="font-medium">
+                            This buyer may already be in the system. Check the existing {duplicates.length === 1 ? 'lead' : 'leads'} before saving:
+                          </p>
+                          <ul className="space-y-1">
+                            {duplicates.slice(0, 5).map(match => (
+                              <li key={match.lead.id}>
+                                <DuplicateMatchSummary match={match} />
+                              </li>
+                            ))}
+                          </ul>
+                          <p className="text-muted-foreground">
+                            {isEditing ? "Save anyway" : "Create anyway"} to keep this as a separate lead.
+                          </p>
+                        </div>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   <div className="flex justify-end gap-4">
                     <Button 
                       type="button" 
                       variant="outline" 
-                      onClick={() => navigate('/leads')}
+                      onClick={() => navigate(isEditing ? `/leads/${id}` : '/leads')}
                     >
                       Cancel
                     </Button>
                     <Button type="submit" disabled={loading}>
-                      {loading ? "Creating..." : "Create Lead"}
+                      {isEditing
+                        ? (loading ? "Saving..." : duplicates ? "Save Anyway" : "Save Changes")
+                        : (loading ? "Creating..." : duplicates ? "Create Anyway" : "Create Lead")}
                     </Button>
                   </div>
                 </form>
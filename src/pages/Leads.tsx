@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,11 +19,73 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Search, Filter, Edit, Trash2, Eye } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { Plus, Search, Filter, Edit, Trash2, Eye, UserCheck, List, Columns3, ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useTeamMembers } from "@/hooks/useTeamMembers";
 import { useToast } from "@/hooks/use-toast";
+import { AdvancedLeadFilter, defaultPreferences, LeadViewFilters } from "@/lib/validations";
+import { changeLeadStatus, formatBudget, getPriorityColor, getStatusColor, LeadStatus } from "@/lib/leads";
+import { LeadBoard } from "@/components/LeadBoard";
+import { SavedViewsMenu } from "@/components/SavedViewsMenu";
+import { LeadFilterBuilder } from "@/components/LeadFilterBuilder";
+import { LeadFilterChips } from "@/components/LeadFilterChips";
+import {
+  buildLeadFilterExpression,
+  countActiveConditions,
+  emptyAdvancedFilter,
+  LeadFilterable,
+  parseAdvancedFilterParam,
+} from "@/lib/leadFilters";
+import { getScoreColor } from "@/lib/scoring";
+import { formatSortParam, LeadColumnKey, leadColumnConfig, parseSortParam, toggleSort } from "@/lib/leadColumns";
+import { LeadColumnsMenu } from "@/components/LeadColumnsMenu";
+import { Json } from "@/integrations/supabase/types";
+import { Checkbox } from "@/components/ui/checkbox";
+import { BulkActionsBar } from "@/components/BulkActionsBar";
+import {
+  BulkChange,
+  bulkDeleteLeads,
+  BulkResult,
+  bulkSelectionLimit,
+  bulkUpdateLeads,
+  describeBulkResult,
+  fetchSelectedLeads,
+} from "@/lib/bulkActions";
+import { buildLeadsCsv, downloadCsv } from "@/lib/csv";
+import { fetchSearchSnippets } from "@/lib/search";
+import { SearchSnippet } from "@/components/SearchSnippet";
+import { PhoneLink } from "@/components/PhoneLink";
+import { useDebouncedValue } from "@/hooks/useDebouncedValue";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+import { restoreLeads, trashLeads } from "@/lib/trash";
+import { formatPropertyType } from "@/lib/propertyTypes";
+import { formatDataQualityFlags } from "@/lib/emailQuality";
+import { useTags } from "@/hooks/useTags";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useAreas } from "@/hooks/useAreas";
+import { TagBadge } from "@/components/TagBadge";
+import { ToastAction, ToastActionElement } from "@/components/ui/toast";
+import {
+  buildKeysetFilter,
+  formatLeadCount,
+  getCursorValues,
+  infiniteScrollBatchSize,
+  PageCursor,
+  pageSizeOptions,
+  parseCursorParam,
+  withTiebreaker,
+} from "@/lib/pagination";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 
 interface Lead {
   id: string;
@@ -36,62 +98,225 @@ interface Lead {
   priority: number;
   budget_min: number;
   budget_max: number;
+  lead_score: number;
+  preferred_areas: string[];
+  property_type: string;
+  last_contacted: string;
+  next_follow_up: string;
   created_at: string;
   created_by: string;
   assigned_to: string;
+  tag_ids: string[] | null;
+  data_quality_flags: string[];
 }
 
+const boardLeadLimit = 500;
+
+const isValidSort = (value: string | null) => parseSortParam(value).length > 0;
+
+type PageSize = number | 'infinite';
+
+const parsePageSize = (value: string | null): PageSize | null => {
+  if (value === 'infinite') return value;
+  return pageSizeOptions.find(size => size.toString() === value) ?? null;
+};
+
 export default function Leads() {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [sourceFilter, setSourceFilter] = useState("all");
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchInput, setSearchInput] = useState(searchParams.get('q') || "");
+  const searchTerm = useDebouncedValue(searchInput.trim());
+  const [statusFilter, setStatusFilter] = useState(searchParams.get('status') || "all");
+  const [sourceFilter, setSourceFilter] = useState(searchParams.get('source') || "all");
+  const [assigneeFilter, setAssigneeFilter] = useState(searchParams.get('assignee') || "all");
+  const [advancedFilter, setAdvancedFilter] = useState<AdvancedLeadFilter>(() => parseAdvancedFilterParam(searchParams.get('where')));
+  const [sortBy, setSortBy] = useState<string>(
+    isValidSort(searchParams.get('sort')) ? searchParams.get('sort') : defaultPreferences.leads_sort
+  );
+  const [pageSize, setPageSize] = useState<PageSize>(parsePageSize(searchParams.get('size')) ?? defaultPreferences.leads_page_size);
+  const [columns, setColumns] = useState<LeadColumnKey[]>(defaultPreferences.leads_columns);
+  const [preferencesApplied, setPreferencesApplied] = useState(false);
+  const [view, setView] = useState<"table" | "board">(searchParams.get('view') === "board" ? "board" : "table");
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  // Cursors of every page visited so far; the last one is the page on screen and "Previous" pops it
+  const [pageCursors, setPageCursors] = useState<(PageCursor | null)[]>(() => {
+    const cursor = parseCursorParam(searchParams.get('after'));
+    return cursor ? [null, cursor] : [null];
+  });
+  const [nextCursor, setNextCursor] = useState<PageCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [totalCount, setTotalCount] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [snippets, setSnippets] = useState<Record<string, string>>({});
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { role, preferences, loading: profileLoading, updateProfile } = useProfile();
+  const { members, agents, getMemberName } = useTeamMembers();
+  const { tags, getTag, getTagName } = useTags();
+  const { customFields, getCustomField } = useCustomFields();
+  const { areas } = useAreas();
   const { toast } = useToast();
+  const currentCursor = pageCursors[pageCursors.length - 1];
+  // The query string this page last wrote, to tell its own updates apart from back/forward and links
+  const writtenParams = useRef<string | null>(null);
+
+  const resetPages = () => setPageCursors([null]);
+
+  // Preferences only fill in what the URL doesn't specify, so shared links open exactly as sent
+  useEffect(() => {
+    if (!profileLoading && !preferencesApplied) {
+      if (!searchParams.has('status')) setStatusFilter(preferences.leads_status_filter);
+      if (!searchParams.has('source')) setSourceFilter(preferences.leads_source_filter);
+      if (!isValidSort(searchParams.get('sort'))) setSortBy(preferences.leads_sort);
+      if (!parsePageSize(searchParams.get('size'))) setPageSize(preferences.leads_page_size);
+      setColumns(preferences.leads_columns);
+      setPreferencesApplied(true);
+    }
+  }, [profileLoading, preferencesApplied, preferences, searchParams]);
+
+  useEffect(() => {
+    if (!preferencesApplied) return;
+
+    const params = new URLSearchParams();
+    if (searchTerm) params.set('q', searchTerm);
+    params.set('status', statusFilter);
+    params.set('source', sourceFilter);
+    if (assigneeFilter !== "all") params.set('assignee', assigneeFilter);
+    if (advancedFilter.groups.length > 0) params.set('where', JSON.stringify(advancedFilter));
+    params.set('sort', sortBy);
+    if (pageSize !== preferences.leads_page_size) params.set('size', pageSize.toString());
+    if (currentCursor) params.set('after', JSON.stringify(currentCursor));
+    if (view !== "table") params.set('view', view);
+
+    writtenParams.current = params.toString();
+    setSearchParams(params, { replace: true });
+  }, [preferencesApplied, preferences, searchTerm, statusFilter, sourceFilter, assigneeFilter, advancedFilter, sortBy, pageSize, currentCursor, view, setSearchParams]);
+
+  // Back/forward, or following a /leads?... link while the page is open, changes the URL without
+  // remounting, so the filters, sort and search are read back from it
+  useEffect(() => {
+    if (!preferencesApplied || writtenParams.current === null || searchParams.toString() === writtenParams.current) return;
 
-  const leadsPerPage = 10;
+    const sort = searchParams.get('sort');
+    const cursor = parseCursorParam(searchParams.get('after'));
+    setSearchInput(searchParams.get('q') || "");
+    setStatusFilter(searchParams.get('status') || preferences.leads_status_filter);
+    setSourceFilter(searchParams.get('source') || preferences.leads_source_filter);
+    setAssigneeFilter(searchParams.get('assignee') || "all");
+    setAdvancedFilter(parseAdvancedFilterParam(searchParams.get('where')));
+    setSortBy(sort && isValidSort(sort) ? sort : preferences.leads_sort);
+    setPageSize(parsePageSize(searchParams.get('size')) ?? preferences.leads_page_size);
+    setView(searchParams.get('view') === "board" ? "board" : "table");
+    setPageCursors(cursor ? [null, cursor] : [null]);
+  }, [searchParams, preferencesApplied, preferences]);
 
   useEffect(() => {
-    if (user) {
+    if (user && preferencesApplied) {
       fetchLeads();
     }
-  }, [user, currentPage, searchTerm, statusFilter, sourceFilter]);
+  }, [user, preferencesApplied, currentCursor, searchTerm, statusFilter, sourceFilter, assigneeFilter, advancedFilter, sortBy, pageSize, view, areas]);
 
-  const fetchLeads = async () => {
-    try {
-      let query = supabase
-        .from('buyer_leads')
-        .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (searchTerm) {
-        query = query.or(`first_name.ilike.%${searchTerm}%,last_name.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%`);
-      }
+  // A selection only makes sense for the leads it was made against
+  useEffect(() => {
+    setSelectedIds([]);
+    setAllMatchingSelected(false);
+  }, [searchTerm, statusFilter, sourceFilter, assigneeFilter, advancedFilter, view]);
 
-      if (statusFilter !== "all") {
-        query = query.eq('status', statusFilter as any);
+  // Shared by the page query and bulk actions so "all matching" always means the leads the table shows.
+  // `after` is a keyset filter; like the others it has to go on before search_leads picks its columns.
+  const buildLeadsQuery = <Columns extends string>(columns: Columns, after?: string) => {
+    const applyFilters = <Query extends LeadFilterable<Query>>(query: Query) => {
+      // The board shows every status as its own column, so the status filter only applies to the table
+      if (statusFilter !== "all" && view === "table") {
+        query = query.filter('status', 'eq', statusFilter);
       }
 
       if (sourceFilter !== "all") {
-        query = query.eq('source', sourceFilter as any);
+        query = query.filter('source', 'eq', sourceFilter);
       }
 
-      // Apply pagination
-      const from = (currentPage - 1) * leadsPerPage;
-      const to = from + leadsPerPage - 1;
-      query = query.range(from, to);
+      // "me" keeps saved views and shared links meaningful for whoever opens them
+      if (assigneeFilter === "unassigned") {
+        query = query.filter('assigned_to', 'is', null);
+      } else if (assigneeFilter === "me") {
+        query = query.filter('assigned_to', 'eq', user.id);
+      } else if (assigneeFilter !== "all") {
+        query = query.filter('assigned_to', 'eq', assigneeFilter);
+      }
 
-      const { data, error, count } = await query;
+      const advancedExpression = buildLeadFilterExpression(advancedFilter, user.id, areas);
+      if (advancedExpression) {
+        query = query.or(advancedExpression);
+      }
 
-      if (error) throw error;
+      if (after) {
+        query = query.or(after);
+      }
+
+      return query;
+    };
+
+    // Search results arrive ranked by relevance; an explicit order would override that ranking
+    if (searchTerm) {
+      return applyFilters(supabase.rpc('search_leads', { search: searchTerm }, { count: 'estimated' })).select(columns);
+    }
+
+    let query = applyFilters(supabase.from('buyer_leads').select(columns, { count: 'estimated' }));
+    for (const sort of withTiebreaker(parseSortParam(sortBy))) {
+      query = query.order(sort.column, { ascending: sort.ascending, nullsFirst: false });
+    }
+
+    return query;
+  };
+
+  // Seeks past the previous page's last row instead of counting an offset, so deep pages cost the same as the
+  // first. One extra row is fetched to tell whether another page follows.
+  const fetchPage = async (cursor: PageCursor | null) => {
+    const limit = pageSize === 'infinite' ? infiniteScrollBatchSize : pageSize;
+    const sorts = withTiebreaker(parseSortParam(sortBy));
+    const offset = cursor && 'offset' in cursor ? cursor.offset : 0;
+
+    const after = cursor && 'after' in cursor ? buildKeysetFilter(sorts, cursor.after) : undefined;
+    const { data, error, count } = await buildLeadsQuery('*, lead_score, tag_ids', after).range(offset, offset + limit);
 
-      setLeads(data || []);
-      setTotalPages(Math.ceil((count || 0) / leadsPerPage));
+    if (error) throw error;
+
+    const rows = (data || []).slice(0, limit);
+    const lastRow = rows[rows.length - 1];
+    let next: PageCursor | null = null;
+    if ((data || []).length > limit && lastRow) {
+      next = searchTerm ? { offset: offset + limit } : { after: getCursorValues(lastRow, sorts) };
+    }
+
+    // Snippets are a nice-to-have; a failure here shouldn't hide the results themselves
+    const pageSnippets = await fetchSearchSnippets(searchTerm, rows.map(lead => lead.id)).catch(() => ({}));
+
+    return { rows, next, count: count || 0, snippets: pageSnippets };
+  };
+
+  const fetchLeads = async () => {
+    try {
+      if (view === "board") {
+        const { data, error, count } = await buildLeadsQuery('*, lead_score, tag_ids').limit(boardLeadLimit);
+
+        if (error) throw error;
+
+        setLeads(data || []);
+        setSnippets({});
+        setNextCursor(null);
+        setTotalCount(count || 0);
+        return;
+      }
+
+      const page = await fetchPage(currentCursor);
+
+      setLeads(page.rows);
+      setSnippets(page.snippets);
+      setNextCursor(page.next);
+      setTotalCount(page.count);
     } catch (error: any) {
       toast({
         title: "Error",
@@ -103,18 +328,65 @@ export default function Leads() {
     }
   };
 
+  // Infinite scroll: append the next batch instead of replacing the page
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      const loadedIds = new Set(leads.map(lead => lead.id));
+
+      setLeads([...leads, ...page.rows.filter(lead => !loadedIds.has(lead.id))]);
+      setSnippets({ ...snippets, ...page.snippets });
+      setNextCursor(page.next);
+      setTotalCount(page.count);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load more leads",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const undoDelete = async (leadIds: string[]) => {
+    try {
+      const restored = await restoreLeads(leadIds);
+
+      toast({
+        title: "Restored",
+        description: `${restored.length} ${restored.length === 1 ? 'lead' : 'leads'} restored from the trash.`,
+      });
+
+      fetchLeads();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore leads",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const undoDeleteAction = (leadIds: string[]) => (
+    <ToastAction altText="Undo delete" onClick={() => undoDelete(leadIds)}>
+      Undo
+    </ToastAction>
+  );
+
   const deleteLead = async (leadId: string) => {
     try {
-      const { error } = await supabase
-        .from('buyer_leads')
-        .delete()
-        .eq('id', leadId);
+      const deletedIds = await trashLeads([leadId]);
 
-      if (error) throw error;
+      if (deletedIds.length === 0) throw new Error("You don't have permission to delete this lead");
 
       toast({
-        title: "Success!",
-        description: "Lead has been deleted successfully.",
+        title: "Lead moved to trash",
+        description: "Admins can restore it from the Trash page.",
+        action: undoDeleteAction(deletedIds),
       });
 
       fetchLeads();
@@ -127,47 +399,277 @@ export default function Leads() {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'new': return "blue";
-      case 'contacted': return "yellow";
-      case 'qualified': return "green";
-      case 'not_qualified': return "gray";
-      case 'closed': return "purple";
-      default: return "default";
+  const moveLead = async (lead: Lead, status: LeadStatus) => {
+    if (!user) return;
+
+    const previousStatus = lead.status as LeadStatus;
+    setLeads(prev => prev.map(l => l.id === lead.id ? { ...l, status } : l));
+    setUpdatingStatus(true);
+
+    try {
+      await changeLeadStatus({
+        leadId: lead.id,
+        actorId: user.id,
+        from: previousStatus,
+        to: status,
+      });
+    } catch (error: any) {
+      setLeads(prev => prev.map(l => l.id === lead.id ? { ...l, status: previousStatus } : l));
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update lead status",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingStatus(false);
     }
   };
 
-  const getPriorityColor = (priority: number) => {
-    switch (priority) {
-      case 5: return "destructive";
-      case 4: return "destructive";
-      case 3: return "default";
-      case 2: return "secondary";
-      case 1: return "outline";
-      default: return "default";
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setAllMatchingSelected(false);
+  };
+
+  const toggleSelected = (leadId: string, checked: boolean) => {
+    setAllMatchingSelected(false);
+    setSelectedIds(prev => checked ? [...prev, leadId] : prev.filter(id => id !== leadId));
+  };
+
+  const togglePageSelected = (checked: boolean) => {
+    const pageIds = leads.map(lead => lead.id);
+    setAllMatchingSelected(false);
+    setSelectedIds(prev => checked
+      ? [...prev, ...pageIds.filter(id => !prev.includes(id))]
+      : prev.filter(id => !pageIds.includes(id)));
+  };
+
+  const resolveSelectedIds = async () => {
+    if (!allMatchingSelected) return selectedIds;
+
+    const { data, error } = await buildLeadsQuery('id').limit(bulkSelectionLimit);
+    if (error) throw error;
+    return (data || []).map(lead => lead.id);
+  };
+
+  const runBulkAction = async (
+    verb: string,
+    action: (leadIds: string[]) => Promise<BulkResult>,
+    undoAction?: (leadIds: string[]) => ToastActionElement,
+  ) => {
+    setBulkBusy(true);
+    try {
+      const leadIds = await resolveSelectedIds();
+      const result = await action(leadIds);
+      const incomplete = result.failedIds.length > 0 || Boolean(result.activityError);
+      const succeededIds = leadIds.filter(id => !result.failedIds.includes(id));
+
+      toast({
+        title: incomplete ? "Partially completed" : "Success!",
+        description: describeBulkResult(result, verb),
+        variant: incomplete ? "destructive" : "default",
+        action: undoAction && succeededIds.length > 0 ? undoAction(succeededIds) : undefined,
+      });
+
+      // Keep the leads that failed selected so they can be retried or inspected
+      setAllMatchingSelected(false);
+      setSelectedIds(result.failedIds);
+      fetchLeads();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Bulk action failed",
+        variant: "destructive",
+      });
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const bulkUpdate = (change: BulkChange) => {
+    if (!user) return;
+    runBulkAction('Updated', (leadIds) => bulkUpdateLeads({ leadIds, actorId: user.id, change, getMemberName, getTagName }));
+  };
+
+  const bulkDelete = () => {
+    const count = allMatchingSelected ? Math.min(totalCount, bulkSelectionLimit) : selectedIds.length;
+    if (window.confirm(`Move ${count} leads to the trash? Admins can restore them from the Trash page.`)) {
+      runBulkAction('Deleted', bulkDeleteLeads, undoDeleteAction);
+    }
+  };
+
+  const bulkExport = async () => {
+    setBulkBusy(true);
+    try {
+      const { data, error } = allMatchingSelected
+        ? await buildLeadsQuery('*, tag_ids').limit(bulkSelectionLimit)
+        : { data: await fetchSelectedLeads(selectedIds), error: null };
+
+      if (error) throw error;
+
+      downloadCsv(buildLeadsCsv(data || [], tags, customFields), `leads_selection_${new Date().toISOString().split('T')[0]}.csv`);
+
+      toast({
+        title: "Export Successful!",
+        description: `Exported ${data?.length || 0} leads to CSV file.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Export Error",
+        description: error.message || "Failed to export leads",
+        variant: "destructive",
+      });
+    } finally {
+      setBulkBusy(false);
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      maximumFractionDigits: 0,
-    }).format(amount);
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : 'N/A';
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString();
+  const updateColumns = async (leads_columns: LeadColumnKey[]) => {
+    setColumns(leads_columns);
+    try {
+      await updateProfile({ preferences: { ...preferences, leads_columns } as Json });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save column layout",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderCell = (lead: Lead, key: LeadColumnKey) => {
+    switch (key) {
+      case 'name':
+        return (
+          <TableCell key={key} className="font-medium">
+            {lead.first_name} {lead.last_name}
+            {snippets[lead.id] && <SearchSnippet snippet={snippets[lead.id]} />}
+          </TableCell>
+        );
+      case 'email':
+        return (
+          <TableCell key={key}>
+            <span className="inline-flex items-center gap-1">
+              {lead.email}
+              {lead.data_quality_flags?.length > 0 && (
+                <span title={formatDataQualityFlags(lead.data_quality_flags)}>
+                  <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-amber-600" />
+                </span>
+              )}
+            </span>
+          </TableCell>
+        );
+      case 'phone':
+        return <TableCell key={key}><PhoneLink phone={lead.phone} /></TableCell>;
+      case 'status':
+        return (
+          <TableCell key={key}>
+            <Badge variant="outline" className={`border-${getStatusColor(lead.status)}-500 text-${getStatusColor(lead.status)}-700`}>
+              {lead.status.replace('_', ' ')}
+            </Badge>
+          </TableCell>
+        );
+      case 'source':
+        return (
+          <TableCell key={key} className="capitalize">
+            {lead.source.replace('_', ' ')}
+          </TableCell>
+        );
+      case 'priority':
+        return (
+          <TableCell key={key}>
+            <Badge variant={getPriorityColor(lead.priority)}>
+              {lead.priority}
+            </Badge>
+          </TableCell>
+        );
+      case 'lead_score':
+        return (
+          <TableCell key={key}>
+            <Badge variant="outline" className={getScoreColor(lead.lead_score ?? 0)}>
+              {lead.lead_score ?? 0}
+            </Badge>
+          </TableCell>
+        );
+      case 'budget':
+        return <TableCell key={key}>{formatBudget(lead.budget_min, lead.budget_max)}</TableCell>;
+      case 'preferred_areas':
+        return (
+          <TableCell key={key} className="max-w-[200px] truncate">
+            {lead.preferred_areas?.length ? lead.preferred_areas.join(', ') : 'N/A'}
+          </TableCell>
+        );
+      case 'property_type':
+        return <TableCell key={key}>{formatPropertyType(lead.property_type)}</TableCell>;
+      case 'assigned_to':
+        return (
+          <TableCell key={key} className={lead.assigned_to ? "" : "text-muted-foreground"}>
+            {getMemberName(lead.assigned_to)}
+          </TableCell>
+        );
+      case 'last_contacted':
+        return <TableCell key={key}>{formatDate(lead.last_contacted)}</TableCell>;
+      case 'next_follow_up':
+        return <TableCell key={key}>{formatDate(lead.next_follow_up)}</TableCell>;
+      case 'created_at':
+        return <TableCell key={key}>{formatDate(lead.created_at)}</TableCell>;
+      case 'tags':
+        return (
+          <TableCell key={key}>
+            <div className="flex flex-wrap gap-1">
+              {(lead.tag_ids || []).map(getTag).filter(Boolean).map(tag => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+            </div>
+          </TableCell>
+        );
+    }
   };
 
   const resetFilters = () => {
-    setSearchTerm("");
+    setSearchInput("");
     setStatusFilter("all");
     setSourceFilter("all");
-    setCurrentPage(1);
+    setAssigneeFilter("all");
+    setAdvancedFilter(emptyAdvancedFilter);
+    setSortBy(preferences.leads_sort);
+    resetPages();
+  };
+
+  const currentFilters: LeadViewFilters = {
+    q: searchTerm || undefined,
+    status: statusFilter,
+    source: sourceFilter,
+    assignee: assigneeFilter,
+    sort: sortBy,
+    advanced: advancedFilter.groups.length > 0 ? advancedFilter : undefined,
   };
 
+  const applyView = (filters: LeadViewFilters) => {
+    setSearchInput(filters.q || "");
+    setStatusFilter(filters.status || "all");
+    setSourceFilter(filters.source || "all");
+    setAssigneeFilter(filters.assignee || "all");
+    setAdvancedFilter(filters.advanced || emptyAdvancedFilter);
+    setSortBy(isValidSort(filters.sort) ? filters.sort : preferences.leads_sort);
+    resetPages();
+  };
+
+  const sorts = parseSortParam(sortBy);
+  const pageSelected = leads.length > 0 && leads.every(lead => selectedIds.includes(lead.id));
+
+  const virtualRows = useVirtualRows({
+    count: leads.length,
+    estimatedRowHeight: 57,
+    onNearEnd: pageSize === 'infinite' ? loadMore : undefined,
+  });
+
+  const hasActiveFilters = Boolean(searchTerm) || statusFilter !== "all" || sourceFilter !== "all" ||
+    assigneeFilter !== "all" || countActiveConditions(advancedFilter) > 0;
+
   if (loading) {
     return (
       <Layout>
@@ -189,10 +691,30 @@ export default function Leads() {
             <h1 className="text-3xl font-bold">All Leads</h1>
             <p className="text-muted-foreground">Manage and view all buyer leads</p>
           </div>
-          <Button onClick={() => navigate('/leads/new')}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add New Lead
-          </Button>
+          <div className="flex gap-2">
+            <div className="flex rounded-md border">
+              <Button
+                variant={view === "table" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("table")}
+              >
+                <List className="mr-2 h-4 w-4" />
+                Table
+              </Button>
+              <Button
+                variant={view === "board" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("board")}
+              >
+                <Columns3 className="mr-2 h-4 w-4" />
+                Board
+              </Button>
+            </div>
+            <Button onClick={() => navigate('/leads/new')}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add New Lead
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -210,15 +732,15 @@ export default function Leads() {
                 <div className="relative">
                   <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
                   <Input
-                    placeholder="Search by name or email..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    placeholder="Search names, contact details, notes, areas and activity..."
+                    value={searchInput}
+                    onChange={(e) => { setSearchInput(e.target.value); resetPages(); }}
                     className="pl-8"
                   />
                 </div>
               </div>
               
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); resetPages(); }}>
                 <SelectTrigger className="w-[150px]">
                   <SelectValue placeholder="Status" />
                 </SelectTrigger>
@@ -232,7 +754,7 @@ export default function Leads() {
                 </SelectContent>
               </Select>
 
-              <Select value={sourceFilter} onValueChange={setSourceFilter}>
+              <Select value={sourceFilter} onValueChange={(value) => { setSourceFilter(value); resetPages(); }}>
                 <SelectTrigger className="w-[150px]">
                   <SelectValue placeholder="Source" />
                 </SelectTrigger>
@@ -247,158 +769,287 @@ export default function Leads() {
                 </SelectContent>
               </Select>
 
+              <Select value={assigneeFilter} onValueChange={(value) => { setAssigneeFilter(value); resetPages(); }}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Assigned to" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Agents</SelectItem>
+                  <SelectItem value="me">My Leads</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {members.map(member => (
+                    <SelectItem key={member.user_id} value={member.user_id}>
+                      {member.full_name || 'Unnamed user'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant={assigneeFilter === "me" ? "default" : "outline"}
+                onClick={() => {
+                  setAssigneeFilter(assigneeFilter !== "me" ? "me" : "all");
+                  resetPages();
+                }}
+              >
+                <UserCheck className="mr-2 h-4 w-4" />
+                My Leads
+              </Button>
+
+              <Select value={sortBy} onValueChange={(value) => { setSortBy(value); resetPages(); }} disabled={Boolean(searchTerm)}>
+                <SelectTrigger className="w-[170px]">
+                  <SelectValue placeholder="Custom sort" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="created_at:desc">Newest first</SelectItem>
+                  <SelectItem value="created_at:asc">Oldest first</SelectItem>
+                  <SelectItem value="lead_score:desc">Highest score</SelectItem>
+                  <SelectItem value="priority:desc">Highest priority</SelectItem>
+                  <SelectItem value="last_name:asc">Last name (A-Z)</SelectItem>
+                  <SelectItem value="budget_max:desc">Highest budget</SelectItem>
+                  <SelectItem value="next_follow_up:asc">Next follow-up</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <LeadFilterBuilder
+                filter={advancedFilter}
+                members={members}
+                tags={tags}
+                customFields={customFields}
+                areas={areas}
+                onApply={(filter) => { setAdvancedFilter(filter); resetPages(); }}
+              />
+
+              <SavedViewsMenu filters={currentFilters} onApply={applyView} />
+
               <Button variant="outline" onClick={resetFilters}>
                 Clear Filters
               </Button>
             </div>
+
+            <LeadFilterChips
+              filter={advancedFilter}
+              onChange={(filter) => { setAdvancedFilter(filter); resetPages(); }}
+              getMemberName={getMemberName}
+              getTagName={getTagName}
+              getCustomField={getCustomField}
+            />
           </CardContent>
         </Card>
 
-        {/* Leads Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Leads ({leads.length})</CardTitle>
-            <CardDescription>
-              {leads.length === 0 && searchTerm || statusFilter !== "all" || sourceFilter !== "all"
-                ? "No leads match your current filters"
-                : `Showing page ${currentPage} of ${totalPages}`}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {leads.length > 0 ? (
-              <>
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Phone</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Source</TableHead>
-                      <TableHead>Priority</TableHead>
-                      <TableHead>Budget</TableHead>
-                      <TableHead>Created</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {leads.map((lead) => (
-                      <TableRow key={lead.id}>
-                        <TableCell className="font-medium">
-                          {lead.first_name} {lead.last_name}
-                        </TableCell>
-                        <TableCell>{lead.email}</TableCell>
-                        <TableCell>{lead.phone || 'N/A'}</TableCell>
-                        <TableCell>
-                          <Badge variant="outline" className={`border-${getStatusColor(lead.status)}-500 text-${getStatusColor(lead.status)}-700`}>
-                            {lead.status.replace('_', ' ')}
-                          </Badge>
-                        </TableCell>
-                        <TableCell className="capitalize">
-                          {lead.source.replace('_', ' ')}
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant={getPriorityColor(lead.priority)}>
-                            {lead.priority}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          {lead.budget_min && lead.budget_max
-                            ? `${formatCurrency(lead.budget_min)} - ${formatCurrency(lead.budget_max)}`
-                            : lead.budget_min
-                            ? `${formatCurrency(lead.budget_min)}+`
-                            : lead.budget_max
-                            ? `Up to ${formatCurrency(lead.budget_max)}`
-                            : 'N/A'
-                          }
-                        </TableCell>
-                        <TableCell>{formatDate(lead.created_at)}</TableCell>
-                        <TableCell className="text-right">
-                          <div className="flex justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => navigate(`/leads/${lead.id}`)}
-                            >
-                              <Eye className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => navigate(`/leads/${lead.id}/edit`)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => {
-                                if (window.confirm('Are you sure you want to delete this lead?')) {
-                                  deleteLead(lead.id);
-                                }
-                              }}
-                              className="text-destructive hover:text-destructive"
+        {view === "board" ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Pipeline ({leads.length})</CardTitle>
+              <CardDescription>
+                Drag a lead to another column to change its status
+                {leads.length >= boardLeadLimit && ` (showing the first ${boardLeadLimit} leads)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeadBoard leads={leads} onStatusChange={moveLead} disabled={updatingStatus} />
+            </CardContent>
+          </Card>
+        ) : (
+          /* Leads Table */
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Leads ({formatLeadCount(totalCount)})</CardTitle>
+                  <CardDescription>
+                    {leads.length === 0 && hasActiveFilters
+                      ? "No leads match your current filters"
+                      : `Showing ${leads.length} of ${formatLeadCount(totalCount)}${searchTerm ? ', best matches first' : ''}`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={pageSize.toString()}
+                    onValueChange={(value) => { setPageSize(parsePageSize(value) ?? preferences.leads_page_size); resetPages(); }}
+                  >
+                    <SelectTrigger className="w-[150px] h-9">
+                      <SelectValue placeholder="Page size" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pageSizeOptions.map(size => (
+                        <SelectItem key={size} value={size.toString()}>{size} per page</SelectItem>
+                      ))}
+                      <SelectItem value="infinite">Infinite scroll</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <LeadColumnsMenu columns={columns} onChange={updateColumns} />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(selectedIds.length > 0 || allMatchingSelected) && (
+                <BulkActionsBar
+                  selectedCount={selectedIds.length}
+                  matchingCount={totalCount}
+                  allMatchingSelected={allMatchingSelected}
+                  canSelectAllMatching={pageSelected}
+                  agents={agents}
+                  tags={tags}
+                  areas={areas}
+                  busy={bulkBusy}
+                  onSelectAllMatching={() => setAllMatchingSelected(true)}
+                  onClear={clearSelection}
+                  onChange={bulkUpdate}
+                  onExport={bulkExport}
+                  onDelete={role === 'admin' ? bulkDelete : undefined}
+                />
+              )}
+
+              {leads.length > 0 ? (
+                <>
+                  <div ref={virtualRows.containerRef} onScroll={virtualRows.onScroll} className="max-h-[70vh] overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-10">
+                            <Checkbox
+                              aria-label="Select all leads on this page"
+                              checked={pageSelected || allMatchingSelected}
+                              onCheckedChange={(checked) => togglePageSelected(checked === true)}
+                            />
+                          </TableHead>
+                          {columns.map(key => {
+                            const { label, sortColumn } = leadColumnConfig[key];
+                            if (!sortColumn) return <TableHead key={key}>{label}</TableHead>;
+
+                            const sortIndex = sorts.findIndex(sort => sort.column === sortColumn);
+                            const sort = sorts[sortIndex];
+                            const SortIcon = !sort ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+
+                            return (
+                              <TableHead key={key}>
+                                <button
+                                  type="button"
+                                  title="Click to sort, shift-click to add to the sort"
+                                  className="inline-flex items-center gap-1 hover:text-foreground disabled:pointer-events-none"
+                                  disabled={Boolean(searchTerm)}
+                                  onClick={(e) => {
+                                    setSortBy(formatSortParam(toggleSort(sorts, sortColumn, e.shiftKey)));
+                                    resetPages();
+                                  }}
+                                >
+                                  {label}
+                                  {!searchTerm && <SortIcon className={`h-3 w-3 ${sort ? 'text-foreground' : 'opacity-40'}`} />}
+                                  {!searchTerm && sort && sorts.length > 1 && <span className="text-xs">{sortIndex + 1}</span>}
+                                </button>
+                              </TableHead>
+                            );
+                          })}
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {virtualRows.paddingTop > 0 && <tr style={{ height: virtualRows.paddingTop }} />}
+                        {leads.slice(virtualRows.start, virtualRows.end).map((lead) => (
+                          <TableRow key={lead.id} data-virtual-row data-state={selectedIds.includes(lead.id) || allMatchingSelected ? "selected" : undefined}>
+                            <TableCell>
+                              <Checkbox
+                                aria-label={`Select ${lead.first_name} ${lead.last_name}`}
+                                checked={selectedIds.includes(lead.id) || allMatchingSelected}
+                                onCheckedChange={(checked) => toggleSelected(lead.id, checked === true)}
+                              />
+                            </TableCell>
+                            {columns.map(key => renderCell(lead, key))}
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => navigate(`/leads/${lead.id}`)}
+                                >
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => navigate(`/leads/${lead.id}/edit`)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                {role === 'admin' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => deleteLead(lead.id)}
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        {virtualRows.paddingBottom > 0 && <tr style={{ height: virtualRows.paddingBottom }} />}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  {pageSize === 'infinite' ? (
+                    <p className="text-center text-sm text-muted-foreground">
+                      {loadingMore ? "Loading more leads..." : nextCursor ? "Scroll to load more" : `All ${leads.length} leads loaded`}
+                    </p>
+                  ) : (pageCursors.length > 1 || nextCursor) && (
+                    <Pagination>
+                      <PaginationContent>
+                        {pageCursors.length > 2 && (
+                          <PaginationItem>
+                            <PaginationLink
+                              href="#"
+                              size="default"
+                              onClick={(e) => { e.preventDefault(); resetPages(); }}
                             >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-
-                {/* Pagination */}
-                {totalPages > 1 && (
-                  <div className="flex justify-center gap-2 mt-6">
-                    <Button
-                      variant="outline"
-                      onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                      disabled={currentPage === 1}
-                    >
-                      Previous
-                    </Button>
-                    
-                    <div className="flex items-center gap-2">
-                      {[...Array(totalPages)].map((_, i) => (
-                        <Button
-                          key={i + 1}
-                          variant={currentPage === i + 1 ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setCurrentPage(i + 1)}
-                        >
-                          {i + 1}
-                        </Button>
-                      )).slice(Math.max(0, currentPage - 3), currentPage + 2)}
-                    </div>
-
-                    <Button
-                      variant="outline"
-                      onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                      disabled={currentPage === totalPages}
-                    >
-                      Next
+                              First
+                            </PaginationLink>
+                          </PaginationItem>
+                        )}
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href="#"
+                            aria-disabled={pageCursors.length === 1}
+                            className={pageCursors.length === 1 ? "pointer-events-none opacity-50" : undefined}
+                            onClick={(e) => { e.preventDefault(); setPageCursors(pageCursors.slice(0, -1)); }}
+                          />
+                        </PaginationItem>
+                        <PaginationItem>
+                          <PaginationNext
+                            href="#"
+                            aria-disabled={!nextCursor}
+                            className={!nextCursor ? "pointer-events-none opacity-50" : undefined}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              if (nextCursor) setPageCursors([...pageCursors, nextCursor]);
+                            }}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
+              ) : (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground mb-4">
+                    {hasActiveFilters
+                      ? "No leads match your current filters"
+                      : "No leads found"}
+                  </p>
+                  {!hasActiveFilters && (
+                    <Button onClick={() => navigate('/leads/new')}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Your First Lead
                     </Button>
-                  </div>
-                )}
-              </>
-            ) : (
-              <div className="text-center py-12">
-                <p className="text-muted-foreground mb-4">
-                  {searchTerm || statusFilter !== "all" || sourceFilter !== "all"
-                    ? "No leads match your current filters"
-                    : "No leads found"}
-                </p>
-                {(!searchTerm && statusFilter === "all" && sourceFilter === "all") && (
-                  <Button onClick={() => navigate('/leads/new')}>
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Your First Lead
-                  </Button>
-                )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </Layout>
   );
@@ -0,0 +1,338 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScoringRulesCard } from "@/components/ScoringRulesCard";
+import { TagsCard } from "@/components/TagsCard";
+import { CustomFieldsCard } from "@/components/CustomFieldsCard";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+import { leadSortOptions, settingsSchema, SettingsFormData } from "@/lib/validations";
+import { pageSizeOptions } from "@/lib/pagination";
+import { phoneCountries, phoneCountryInfo } from "@/lib/phone";
+
+const sortLabels: Record<typeof leadSortOptions[number], string> = {
+  'created_at:desc': "Newest first",
+  'created_at:asc': "Oldest first",
+  'lead_score:desc': "Highest score",
+  'priority:desc': "Highest priority",
+  'last_name:asc': "Last name (A-Z)",
+  'budget_max:desc': "Highest budget",
+  'next_follow_up:asc': "Next follow-up",
+};
+
+const roleDescriptions: Record<string, string> = {
+  admin: "Full access, including deleting leads and managing users",
+  agent: "Can create leads and update leads they created or are assigned to",
+  viewer: "Read-only access to leads",
+};
+
+export default function Settings() {
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { profile, role, preferences, loading, updateProfile } = useProfile();
+  const { toast } = useToast();
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: {
+      full_name: "",
+      preferences,
+    },
+  });
+
+  useEffect(() => {
+    if (profile) {
+      form.reset({
+        full_name: profile.full_name || "",
+        preferences,
+      });
+    }
+  }, [profile, preferences, form]);
+
+  const onSubmit = async (data: SettingsFormData) => {
+    setSaving(true);
+    try {
+      await updateProfile({
+        full_name: data.full_name,
+        preferences: data.preferences as Json,
+      });
+
+      toast({
+        title: "Success!",
+        description: "Your settings have been saved.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="max-w-2xl mx-auto animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold">Settings</h1>
+            <p className="text-muted-foreground">Manage your profile and personal preferences</p>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Profile</CardTitle>
+                  <CardDescription>How you appear to the rest of your team</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="full_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Full Name *</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Jane Smith" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="space-y-2">
+                    <Label>Email</Label>
+                    <Input value={user?.email || ""} disabled />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Role</Label>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="secondary" className="capitalize">{role || 'unknown'}</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {role ? roleDescriptions[role] : "No role assigned"}
+                      </span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Preferences</CardTitle>
+                  <CardDescription>Defaults applied when you open the Leads, Dashboard and Analytics pages or enter lead details</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="preferences.leads_page_size"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Leads per page</FormLabel>
+                          <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value.toString()}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {pageSizeOptions.map(size => (
+                                <SelectItem key={size} value={size.toString()}>{size}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="preferences.leads_sort"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Default sort</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {leadSortOptions.map(option => (
+                                <SelectItem key={option} value={option}>{sortLabels[option]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="preferences.leads_status_filter"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Default status filter</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="all">All Status</SelectItem>
+                              <SelectItem value="new">New</SelectItem>
+                              <SelectItem value="contacted">Contacted</SelectItem>
+                              <SelectItem value="qualified">Qualified</SelectItem>
+                              <SelectItem value="not_qualified">Not Qualified</SelectItem>
+                              <SelectItem value="closed">Closed</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="preferences.leads_source_filter"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Default source filter</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="all">All Sources</SelectItem>
+                              <SelectItem value="website">Website</SelectItem>
+                              <SelectItem value="referral">Referral</SelectItem>
+                              <SelectItem value="social_media">Social Media</SelectItem>
+                              <SelectItem value="cold_call">Cold Call</SelectItem>
+                              <SelectItem value="email_campaign">Email Campaign</SelectItem>
+                              <SelectItem value="other">Other</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name="preferences.reporting_period_days"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reporting period</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={field.value.toString()}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="0">All time</SelectItem>
+                            <SelectItem value="7">Last 7 days</SelectItem>
+                            <SelectItem value="30">Last 30 days</SelectItem>
+                            <SelectItem value="90">Last 90 days</SelectItem>
+                            <SelectItem value="365">Last 12 months</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Limits the leads counted on the Dashboard and Analytics pages</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="preferences.phone_country"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Default phone country</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {phoneCountries.map(country => (
+                              <SelectItem key={country} value={country}>
+                                {phoneCountryInfo[country].name} (+{phoneCountryInfo[country].callingCode})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>Phone numbers you enter or import without a country code are read as numbers from here</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save Settings"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+
+          {role === 'admin' && <ScoringRulesCard />}
+
+          {role === 'admin' && <TagsCard />}
+
+          {role === 'admin' && <CustomFieldsCard />}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert, RotateCcw, Trash2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useTeamMembers } from "@/hooks/useTeamMembers";
+import { useToast } from "@/hooks/use-toast";
+import { getStatusColor } from "@/lib/leads";
+import { fetchTrashedLeads, purgeLeads, restoreLeads } from "@/lib/trash";
+import { formatPhone } from "@/lib/phone";
+
+type Lead = Tables<'buyer_leads'>;
+
+export default function Trash() {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { user } = useAuth();
+  const { role, loading: profileLoading } = useProfile();
+  const { getMemberName } = useTeamMembers();
+  const { toast } = useToast();
+
+  const isAdmin = role === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchTrash();
+    } else if (!profileLoading) {
+      setLoading(false);
+    }
+  }, [user, isAdmin, profileLoading]);
+
+  const fetchTrash = async () => {
+    try {
+      setLeads(await fetchTrashedLeads());
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch the trash",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restore = async (leadIds: string[]) => {
+    setBusy(true);
+    try {
+      const restored = await restoreLeads(leadIds);
+
+      toast({
+        title: "Success!",
+        description: `${restored.length} ${restored.length === 1 ? 'lead' : 'leads'} restored.`,
+      });
+
+      fetchTrash();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore leads",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const purge = async (leadIds: string[]) => {
+    const message = leadIds.length === 1
+      ? 'Permanently delete this lead and its activity history? This cannot be undone.'
+      : `Permanently delete ${leadIds.length} leads and their activity history? This cannot be undone.`;
+    if (!window.confirm(message)) return;
+
+    setBusy(true);
+    try {
+      const purged = await purgeLeads(leadIds);
+
+      toast({
+        title: "Success!",
+        description: `${purged.length} ${purged.length === 1 ? 'lead' : 'leads'} permanently deleted.`,
+      });
+
+      fetchTrash();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete leads",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleString() : 'N/A';
+  };
+
+  if (loading || profileLoading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>Only admins can manage the trash.</AlertDescription>
+          </Alert>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Trash</h1>
+            <p className="text-muted-foreground">Deleted leads stay here, hidden everywhere else, until they are restored or purged</p>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => purge(leads.map(lead => lead.id))}
+            disabled={busy || leads.length === 0}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Empty Trash
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Deleted Leads ({leads.length})</CardTitle>
+            <CardDescription>Restoring a lead brings back its activity history as well</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {leads.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Deleted By</TableHead>
+                    <TableHead>Deleted On</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leads.map((lead) => (
+                    <TableRow key={lead.id}>
+                      <TableCell className="font-medium">{lead.first_name} {lead.last_name}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{lead.email}</div>
+                        {lead.phone && <div className="text-sm text-muted-foreground">{formatPhone(lead.phone)}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {lead.status && (
+                          <Badge variant="outline" className={`border-${getStatusColor(lead.status)}-500 text-${getStatusColor(lead.status)}-700`}>
+                            {lead.status.replace('_', ' ')}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{lead.deleted_by ? getMemberName(lead.deleted_by) : 'Unknown user'}</TableCell>
+                      <TableCell>{formatDate(lead.deleted_at)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => restore([lead.id])} disabled={busy}>
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => purge([lead.id])}
+                            disabled={busy}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center text-muted-foreground py-12">The trash is empty</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
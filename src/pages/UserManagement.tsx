@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { Layout } from "@/components/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShieldAlert, History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, Enums } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useProfile } from "@/hooks/useProfile";
+import { useToast } from "@/hooks/use-toast";
+
+type Profile = Tables<'profiles'>;
+type RoleChange = Tables<'role_audit_log'>;
+
+export default function UserManagement() {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [roleChanges, setRoleChanges] = useState<RoleChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { role, loading: profileLoading } = useProfile();
+  const { toast } = useToast();
+
+  const isAdmin = role === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchUsers();
+    } else if (!profileLoading) {
+      setLoading(false);
+    }
+  }, [user, isAdmin, profileLoading]);
+
+  const fetchUsers = async () => {
+    try {
+      const [{ data: profileData, error: profileError }, { data: auditData, error: auditError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('*')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('role_audit_log')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(20),
+      ]);
+
+      if (profileError) throw profileError;
+      if (auditError) throw auditError;
+
+      setProfiles(profileData || []);
+      setRoleChanges(auditData || []);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to fetch users",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateAccess = async (profile: Profile, updates: { role?: Enums<'app_role'>; is_active?: boolean }) => {
+    setUpdatingUserId(profile.user_id);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update(updates)
+        .eq('user_id', profile.user_id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success!",
+        description: `${profile.full_name || 'User'} has been updated.`,
+      });
+
+      fetchUsers();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update user",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return 'System';
+    return profiles.find(p => p.user_id === userId)?.full_name || 'Unknown user';
+  };
+
+  const describeChange = (change: RoleChange) => {
+    const parts: string[] = [];
+    if (change.old_role !== change.new_role) {
+      parts.push(`role ${change.old_role || 'none'} → ${change.new_role || 'none'}`);
+    }
+    if (change.old_is_active !== change.new_is_active) {
+      parts.push(change.new_is_active ? 'reactivated' : 'deactivated');
+    }
+    return parts.join(', ');
+  };
+
+  const formatDate = (dateString: string | null) => {
+    return dateString ? new Date(dateString).toLocaleDateString() : 'N/A';
+  };
+
+  if (loading || profileLoading) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-muted rounded w-1/4"></div>
+            <div className="h-64 bg-muted rounded"></div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>Only admins can manage users.</AlertDescription>
+          </Alert>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">User Management</h1>
+          <p className="text-muted-foreground">Manage team roles and access</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Team Members ({profiles.length})</CardTitle>
+            <CardDescription>Admins manage everything, agents work leads, viewers have read-only access</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead className="text-right">Active</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => {
+                  const isSelf = profile.user_id === user?.id;
+                  const isUpdating = updatingUserId === profile.user_id;
+
+                  return (
+                    <TableRow key={profile.id}>
+                      <TableCell className="font-medium">
+                        {profile.full_name || 'Unnamed user'}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={profile.role || undefined}
+                          onValueChange={(value) => updateAccess(profile, { role: value as Enums<'app_role'> })}
+                          disabled={isSelf || isUpdating}
+                        >
+                          <SelectTrigger className="w-[130px]">
+                            <SelectValue placeholder="No role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="admin">Admin</SelectItem>
+                            <SelectItem value="agent">Agent</SelectItem>
+                            <SelectItem value="viewer">Viewer</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={profile.is_active ? "secondary" : "outline"}>
+                          {profile.is_active ? "Active" : "Deactivated"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(profile.created_at)}</TableCell>
+                      <TableCell className="text-right">
+                        <Switch
+                          checked={profile.is_active}
+                          onCheckedChange={(checked) => updateAccess(profile, { is_active: checked })}
+                          disabled={isSelf || isUpdating}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Recent Access Changes
+            </CardTitle>
+            <CardDescription>Role and activation changes recorded by the database</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {roleChanges.length > 0 ? (
+              <ul className="space-y-3">
+                {roleChanges.map((change) => (
+                  <li key={change.id} className="flex justify-between border-b pb-2 last:border-b-0 text-sm">
+                    <span>
+                      <span className="font-medium">{getUserName(change.user_id)}</span>: {describeChange(change)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      by {getUserName(change.changed_by)} on {formatDate(change.created_at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-center text-muted-foreground py-4">No access changes recorded yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
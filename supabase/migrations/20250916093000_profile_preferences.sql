@@ -0,0 +1,3 @@
+-- Per-user preferences (Leads page size, default sort and filters, reporting period)
+ALTER TABLE public.profiles
+    ADD COLUMN preferences JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,145 @@
+-- Allow admins to deactivate users without deleting their data
+ALTER TABLE public.profiles
+    ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true;
+
+-- Audit log of every role or activation change
+CREATE TABLE public.role_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    old_role app_role,
+    new_role app_role,
+    old_is_active BOOLEAN,
+    new_is_active BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.role_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Deactivated users have no role, so every role-based policy denies them
+CREATE OR REPLACE FUNCTION public.get_user_role(user_id UUID)
+RETURNS app_role
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM public.profiles WHERE user_id = $1 AND is_active;
+$$;
+
+-- Only admins may change role or is_active, and the last active admin cannot be removed.
+-- auth.uid() is NULL for the service role and the SQL console, which stay unrestricted.
+CREATE OR REPLACE FUNCTION public.protect_profile_access()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+        IF auth.uid() IS NOT NULL AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+            RAISE EXCEPTION 'Only admins can change roles or deactivate users';
+        END IF;
+
+        IF OLD.role = 'admin' AND OLD.is_active
+            AND (NEW.role IS DISTINCT FROM 'admin' OR NOT NEW.is_active)
+            AND NOT EXISTS (
+                SELECT 1 FROM public.profiles
+                WHERE role = 'admin' AND is_active AND user_id <> OLD.user_id
+            ) THEN
+            RAISE EXCEPTION 'At least one active admin is required';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_access
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_access();
+
+CREATE OR REPLACE FUNCTION public.log_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+        INSERT INTO public.role_audit_log (user_id, changed_by, old_role, new_role, old_is_active, new_is_active)
+        VALUES (NEW.user_id, auth.uid(), OLD.role, NEW.role, OLD.is_active, NEW.is_active);
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_profile_role_change
+    AFTER UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_role_change();
+
+-- RLS Policies for profiles
+CREATE POLICY "Admins can update any profile"
+    ON public.profiles FOR UPDATE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Policies that key on auth.uid() alone would keep letting a deactivated user reach their own leads and
+-- profile, so they also require an active role
+DROP POLICY "Users can update their own profile" ON public.profiles;
+CREATE POLICY "Users can update their own profile"
+    ON public.profiles FOR UPDATE
+    USING (auth.uid() = user_id AND public.get_user_role(auth.uid()) IS NOT NULL);
+
+DROP POLICY "Agents can update leads they created or are assigned to" ON public.buyer_leads;
+CREATE POLICY "Agents can update leads they created or are assigned to"
+    ON public.buyer_leads FOR UPDATE
+    USING (
+        public.get_user_role(auth.uid()) IS NOT NULL AND (
+            public.get_user_role(auth.uid()) = 'admin' OR
+            created_by = auth.uid() OR
+            assigned_to = auth.uid()
+        )
+    );
+
+DROP POLICY "Users can view activities for leads they have access to" ON public.lead_activities;
+CREATE POLICY "Users can view activities for leads they have access to"
+    ON public.lead_activities FOR SELECT
+    USING (
+        public.get_user_role(auth.uid()) IS NOT NULL AND
+        EXISTS (
+            SELECT 1 FROM public.buyer_leads bl
+            WHERE bl.id = lead_activities.lead_id
+            AND (
+                public.get_user_role(auth.uid()) = 'admin' OR
+                bl.created_by = auth.uid() OR
+                bl.assigned_to = auth.uid()
+            )
+        )
+    );
+
+DROP POLICY "Users can create activities for accessible leads" ON public.lead_activities;
+CREATE POLICY "Users can create activities for accessible leads"
+    ON public.lead_activities FOR INSERT
+    WITH CHECK (
+        public.get_user_role(auth.uid()) IS NOT NULL AND
+        EXISTS (
+            SELECT 1 FROM public.buyer_leads bl
+            WHERE bl.id = lead_activities.lead_id
+            AND (
+                public.get_user_role(auth.uid()) = 'admin' OR
+                bl.created_by = auth.uid() OR
+                bl.assigned_to = auth.uid()
+            )
+        )
+    );
+
+-- RLS Policies for role_audit_log (rows are only written by the trigger)
+CREATE POLICY "Admins can view role changes"
+    ON public.role_audit_log FOR SELECT
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE INDEX idx_role_audit_log_user_id ON public.role_audit_log(user_id);
+CREATE INDEX idx_role_audit_log_created_at ON public.role_audit_log(created_at DESC);
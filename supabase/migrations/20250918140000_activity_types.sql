@@ -0,0 +1,35 @@
+-- Create enum for lead activity types
+CREATE TYPE public.activity_type AS ENUM (
+    'lead_created',
+    'lead_updated',
+    'lead_assigned',
+    'status_changed',
+    'follow_up_completed',
+    'interaction_logged',
+    'note_added'
+);
+
+-- Rows with an unrecognised type become notes, keeping the original type in metadata
+UPDATE public.lead_activities
+SET metadata = COALESCE(metadata, '{}') || jsonb_build_object('legacy_activity_type', activity_type),
+    activity_type = 'note_added'
+WHERE activity_type NOT IN (
+    'lead_created',
+    'lead_updated',
+    'lead_assigned',
+    'status_changed',
+    'follow_up_completed',
+    'interaction_logged',
+    'note_added'
+);
+
+UPDATE public.lead_activities
+SET metadata = '{}'
+WHERE metadata IS NULL OR jsonb_typeof(metadata) <> 'object';
+
+ALTER TABLE public.lead_activities
+    ALTER COLUMN activity_type TYPE activity_type USING activity_type::activity_type,
+    ALTER COLUMN metadata SET NOT NULL,
+    ADD CONSTRAINT lead_activities_metadata_is_object CHECK (jsonb_typeof(metadata) = 'object');
+
+CREATE INDEX idx_lead_activities_activity_type ON public.lead_activities(activity_type);
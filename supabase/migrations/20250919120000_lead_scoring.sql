@@ -0,0 +1,127 @@
+-- Weighted signals used to compute lead scores; admins can tune the weights
+CREATE TABLE public.lead_scoring_rules (
+    signal TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT NOT NULL,
+    weight INTEGER NOT NULL DEFAULT 0 CHECK (weight >= 0 AND weight <= 100),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.lead_scoring_rules (signal, label, description, weight) VALUES
+    ('budget', 'Budget', 'Budget range is filled in and sizeable (full marks at $1M)', 20),
+    ('source', 'Source', 'Referrals score highest, cold calls and other sources lowest', 15),
+    ('lead_age', 'Lead age', 'Newer leads score higher, fading to zero after 90 days', 15),
+    ('contact_recency', 'Contact recency', 'Recently contacted leads score higher, fading to zero after 30 days', 20),
+    ('engagement', 'Engagement', 'Number of recorded activities (full marks at 10)', 15),
+    ('preferences', 'Preferences', 'Preferred areas, property type, bedrooms and bathrooms are filled in', 15);
+
+ALTER TABLE public.lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_lead_scoring_rules_updated_at
+    BEFORE UPDATE ON public.lead_scoring_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view scoring rules"
+    ON public.lead_scoring_rules FOR SELECT
+    USING (public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer'));
+
+CREATE POLICY "Admins can update scoring rules"
+    ON public.lead_scoring_rules FOR UPDATE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Whether the current user may see a lead; mirrors the buyer_leads SELECT policies for functions that run
+-- as definer and so bypass them. Checks the stored row, since a caller can pass any row value in.
+CREATE OR REPLACE FUNCTION public.can_view_lead(lead public.buyer_leads)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer')
+        AND EXISTS (SELECT 1 FROM public.buyer_leads bl WHERE bl.id = lead.id);
+$$;
+
+-- Per-signal breakdown of a lead's score. Each signal contributes weight * value, where value is 0..1.
+-- SECURITY DEFINER so the activity count, and therefore the score, is the same for every viewer; leads the
+-- caller can't see get no factors, so activity counts don't leak past the lead_activities policies.
+CREATE OR REPLACE FUNCTION public.lead_score_factors(lead public.buyer_leads)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH signals AS (
+        SELECT 'budget' AS signal,
+            (CASE WHEN lead.budget_min IS NOT NULL THEN 0.25 ELSE 0 END)
+            + (CASE WHEN lead.budget_max IS NOT NULL THEN 0.25 ELSE 0 END)
+            + 0.5 * LEAST(COALESCE(lead.budget_max, lead.budget_min, 0) / 1000000.0, 1) AS value,
+            CASE
+                WHEN lead.budget_min IS NULL AND lead.budget_max IS NULL THEN 'No budget provided'
+                ELSE 'Budget up to ' || to_char(COALESCE(lead.budget_max, lead.budget_min), 'FM$999,999,999')
+            END AS detail
+        UNION ALL
+        SELECT 'source',
+            CASE lead.source
+                WHEN 'referral' THEN 1.0
+                WHEN 'website' THEN 0.7
+                WHEN 'email_campaign' THEN 0.6
+                WHEN 'social_media' THEN 0.5
+                WHEN 'cold_call' THEN 0.4
+                ELSE 0.3
+            END,
+            'Source: ' || replace(COALESCE(lead.source::TEXT, 'unknown'), '_', ' ')
+        UNION ALL
+        SELECT 'lead_age',
+            GREATEST(0, 1 - EXTRACT(EPOCH FROM now() - COALESCE(lead.created_at, now())) / 86400 / 90),
+            'Created ' || floor(EXTRACT(EPOCH FROM now() - COALESCE(lead.created_at, now())) / 86400) || ' days ago'
+        UNION ALL
+        SELECT 'contact_recency',
+            CASE
+                WHEN lead.last_contacted IS NULL THEN 0
+                ELSE GREATEST(0, 1 - EXTRACT(EPOCH FROM now() - lead.last_contacted) / 86400 / 30)
+            END,
+            CASE
+                WHEN lead.last_contacted IS NULL THEN 'Never contacted'
+                ELSE 'Last contacted ' || floor(EXTRACT(EPOCH FROM now() - lead.last_contacted) / 86400) || ' days ago'
+            END
+        UNION ALL
+        SELECT 'engagement',
+            LEAST(COUNT(*) / 10.0, 1),
+            COUNT(*) || ' recorded activities'
+        FROM public.lead_activities la
+        WHERE la.lead_id = lead.id
+        UNION ALL
+        SELECT 'preferences',
+            ((CASE WHEN COALESCE(array_length(lead.preferred_areas, 1), 0) > 0 THEN 1 ELSE 0 END)
+            + (CASE WHEN NULLIF(lead.property_type, '') IS NOT NULL THEN 1 ELSE 0 END)
+            + (CASE WHEN lead.bedrooms IS NOT NULL THEN 1 ELSE 0 END)
+            + (CASE WHEN lead.bathrooms IS NOT NULL THEN 1 ELSE 0 END)) / 4.0,
+            'Preference fields completed'
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'signal', r.signal,
+        'label', r.label,
+        'weight', r.weight,
+        'value', round(s.value::NUMERIC, 2),
+        'points', round((r.weight * s.value)::NUMERIC, 1),
+        'detail', s.detail
+    ) ORDER BY r.weight * s.value DESC), '[]')
+    FROM signals s
+    JOIN public.lead_scoring_rules r ON r.signal = s.signal
+    WHERE public.can_view_lead(lead);
+$$;
+
+-- Overall score from 0 to 100, normalised by the total configured weight
+CREATE OR REPLACE FUNCTION public.lead_score(lead public.buyer_leads)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(round(
+        SUM((factor ->> 'points')::NUMERIC) * 100 / NULLIF(SUM((factor ->> 'weight')::NUMERIC), 0)
+    )::INTEGER, 0)
+    FROM jsonb_array_elements(public.lead_score_factors(lead)) AS factor;
+$$;
@@ -0,0 +1,48 @@
+-- Named Leads page filter/sort combinations, private to their owner or shared with the team
+CREATE TABLE public.saved_lead_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+    filters JSONB NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(filters) = 'object'),
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.saved_lead_views ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_saved_lead_views_updated_at
+    BEFORE UPDATE ON public.saved_lead_views
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for saved_lead_views. Deactivated users have no role, so they lose their own views too.
+CREATE POLICY "Users can view their own and shared views"
+    ON public.saved_lead_views FOR SELECT
+    USING (public.get_user_role(auth.uid()) IS NOT NULL AND (user_id = auth.uid() OR is_shared));
+
+CREATE POLICY "Users can create their own views, only admins can share them"
+    ON public.saved_lead_views FOR INSERT
+    WITH CHECK (
+        user_id = auth.uid() AND
+        public.get_user_role(auth.uid()) IS NOT NULL AND
+        (NOT is_shared OR public.get_user_role(auth.uid()) = 'admin')
+    );
+
+CREATE POLICY "Users can update their own views, only admins can share them"
+    ON public.saved_lead_views FOR UPDATE
+    USING (
+        public.get_user_role(auth.uid()) IS NOT NULL AND
+        (user_id = auth.uid() OR (is_shared AND public.get_user_role(auth.uid()) = 'admin'))
+    )
+    WITH CHECK (NOT is_shared OR public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Users can delete their own views, admins can delete shared views"
+    ON public.saved_lead_views FOR DELETE
+    USING (
+        public.get_user_role(auth.uid()) IS NOT NULL AND
+        (user_id = auth.uid() OR (is_shared AND public.get_user_role(auth.uid()) = 'admin'))
+    );
+
+CREATE INDEX idx_saved_lead_views_user_id ON public.saved_lead_views(user_id);
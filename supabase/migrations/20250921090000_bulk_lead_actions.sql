@@ -0,0 +1,104 @@
+-- Bulk edits for the Leads page. Lead ids travel in the request body, so large selections don't hit URL limits.
+-- Both functions run as the caller: rows RLS doesn't let them change are skipped and simply not returned,
+-- which lets the client report partial failures.
+
+-- Applies the same change set to every lead in lead_ids and returns the before/after values of each updated lead.
+-- Supported keys: status, priority, assigned_to (null to unassign), add_areas and remove_areas (text arrays).
+-- Each lead is updated on its own, so one that fails a policy check (e.g. an agent handing their own lead to
+-- someone else) comes back with error_message set instead of aborting the rest.
+CREATE OR REPLACE FUNCTION public.bulk_update_leads(lead_ids UUID[], changes JSONB)
+RETURNS TABLE (
+    lead_id UUID,
+    old_status lead_status,
+    new_status lead_status,
+    old_priority INTEGER,
+    new_priority INTEGER,
+    old_assigned_to UUID,
+    new_assigned_to UUID,
+    old_preferred_areas TEXT[],
+    new_preferred_areas TEXT[],
+    error_message TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    target_id UUID;
+BEGIN
+    FOR target_id IN SELECT DISTINCT unnest(lead_ids) LOOP
+        BEGIN
+            UPDATE public.buyer_leads AS lead
+            SET
+                status = CASE WHEN changes ? 'status' THEN (changes->>'status')::lead_status ELSE lead.status END,
+                priority = CASE WHEN changes ? 'priority' THEN (changes->>'priority')::INTEGER ELSE lead.priority END,
+                assigned_to = CASE WHEN changes ? 'assigned_to' THEN (changes->>'assigned_to')::UUID ELSE lead.assigned_to END,
+                preferred_areas = CASE
+                    WHEN changes ? 'add_areas' OR changes ? 'remove_areas' THEN ARRAY(
+                        SELECT area
+                        FROM unnest(
+                            COALESCE(lead.preferred_areas, '{}')
+                            || ARRAY(SELECT jsonb_array_elements_text(COALESCE(changes->'add_areas', '[]')))
+                        ) WITH ORDINALITY AS areas(area, position)
+                        WHERE area <> ALL(ARRAY(SELECT jsonb_array_elements_text(COALESCE(changes->'remove_areas', '[]'))))
+                        GROUP BY area
+                        ORDER BY MIN(position)
+                    )
+                    ELSE lead.preferred_areas
+                END
+            FROM public.buyer_leads AS previous
+            WHERE previous.id = lead.id
+              AND lead.id = target_id
+            RETURNING
+                lead.id,
+                previous.status,
+                lead.status,
+                previous.priority,
+                lead.priority,
+                previous.assigned_to,
+                lead.assigned_to,
+                previous.preferred_areas,
+                lead.preferred_areas,
+                NULL
+            INTO
+                lead_id,
+                old_status,
+                new_status,
+                old_priority,
+                new_priority,
+                old_assigned_to,
+                new_assigned_to,
+                old_preferred_areas,
+                new_preferred_areas,
+                error_message;
+
+            -- Not found means RLS hid the lead from the caller; it is reported by its absence, as before
+            IF FOUND THEN
+                RETURN NEXT;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            lead_id := target_id;
+            old_status := NULL;
+            new_status := NULL;
+            old_priority := NULL;
+            new_priority := NULL;
+            old_assigned_to := NULL;
+            new_assigned_to := NULL;
+            old_preferred_areas := NULL;
+            new_preferred_areas := NULL;
+            error_message := SQLERRM;
+            RETURN NEXT;
+        END;
+    END LOOP;
+END;
+$$;
+
+-- Deletes the given leads and returns the ids that were actually removed (admins only, via RLS)
+CREATE OR REPLACE FUNCTION public.bulk_delete_leads(lead_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE SQL
+SET search_path = public
+AS $$
+    DELETE FROM public.buyer_leads
+    WHERE id = ANY(lead_ids)
+    RETURNING id;
+$$;
@@ -0,0 +1,202 @@
+-- Full-text search over leads. Documents live in their own tables so keeping them fresh never touches
+-- buyer_leads.updated_at. Activity text gets a table of its own because activities are only visible to
+-- admins and the lead's creator or assignee, and row-level security can't hide single columns.
+CREATE TABLE public.lead_search_documents (
+    lead_id UUID PRIMARY KEY REFERENCES public.buyer_leads(id) ON DELETE CASCADE,
+    lead_document TSVECTOR NOT NULL DEFAULT ''::TSVECTOR,
+    lead_content TEXT NOT NULL DEFAULT '',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.lead_activity_search_documents (
+    lead_id UUID PRIMARY KEY REFERENCES public.buyer_leads(id) ON DELETE CASCADE,
+    activity_document TSVECTOR NOT NULL DEFAULT ''::TSVECTOR,
+    activity_content TEXT NOT NULL DEFAULT '',
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_search_documents_lead ON public.lead_search_documents USING GIN (lead_document);
+CREATE INDEX idx_lead_activity_search_documents_activity ON public.lead_activity_search_documents USING GIN (activity_document);
+
+ALTER TABLE public.lead_search_documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_activity_search_documents ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user may see a lead's activities; mirrors the lead_activities SELECT policy
+CREATE OR REPLACE FUNCTION public.can_view_lead_activities(lead public.buyer_leads)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT public.get_user_role(auth.uid()) IS NOT NULL AND (
+        public.get_user_role(auth.uid()) = 'admin'
+        OR lead.created_by = auth.uid()
+        OR lead.assigned_to = auth.uid()
+    );
+$$;
+
+-- Documents follow the visibility of their lead, so trashed leads and deactivated users are covered by
+-- the buyer_leads policies
+CREATE POLICY "Users can view search documents for visible leads"
+    ON public.lead_search_documents FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.buyer_leads bl WHERE bl.id = lead_search_documents.lead_id));
+
+CREATE POLICY "Users can view activity search documents for leads whose activities they can see"
+    ON public.lead_activity_search_documents FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.buyer_leads bl
+        WHERE bl.id = lead_activity_search_documents.lead_id AND public.can_view_lead_activities(bl)
+    ));
+
+-- Punctuation becomes whitespace on both the document and the query side, so "jane@example.com",
+-- "555-0123" or "(Downtown)" tokenise the same way whether they're indexed or typed
+CREATE OR REPLACE FUNCTION public.lead_search_text(value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT lower(regexp_replace(COALESCE(value, ''), '[^[:alnum:]]+', ' ', 'g'));
+$$;
+
+-- Turns free text into a prefix-matching AND query. Only alphanumeric tokens survive, so user input can
+-- never inject tsquery operators. Returns NULL when nothing searchable is left.
+CREATE OR REPLACE FUNCTION public.lead_search_query(search TEXT)
+RETURNS TSQUERY
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT to_tsquery('simple', string_agg(token || ':*', ' & '))
+    FROM regexp_split_to_table(public.lead_search_text(search), '\s+') AS token
+    WHERE token <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_lead_search_document(target_lead_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    INSERT INTO public.lead_search_documents (lead_id, lead_document, lead_content, updated_at)
+    SELECT
+        lead.id,
+        setweight(to_tsvector('simple', public.lead_search_text(lead.first_name || ' ' || lead.last_name)), 'A')
+            || setweight(to_tsvector('simple', public.lead_search_text(lead.email)), 'A')
+            -- Digits-only phone, plus the last ten digits so numbers match with or without a country code
+            || setweight(to_tsvector('simple', public.lead_search_text(
+                regexp_replace(COALESCE(lead.phone, ''), '\D', '', 'g') || ' '
+                || right(regexp_replace(COALESCE(lead.phone, ''), '\D', '', 'g'), 10) || ' '
+                || COALESCE(lead.phone, '')
+            )), 'A')
+            || setweight(to_tsvector('simple', public.lead_search_text(
+                array_to_string(lead.preferred_areas, ' ') || ' ' || COALESCE(lead.property_type, '')
+            )), 'B')
+            || setweight(to_tsvector('simple', public.lead_search_text(lead.notes)), 'C'),
+        concat_ws(E'\n', NULLIF(lead.notes, ''), array_to_string(lead.preferred_areas, ', '), NULLIF(lead.property_type, '')),
+        now()
+    FROM public.buyer_leads AS lead
+    WHERE lead.id = target_lead_id
+    ON CONFLICT (lead_id) DO UPDATE SET
+        lead_document = EXCLUDED.lead_document,
+        lead_content = EXCLUDED.lead_content,
+        updated_at = EXCLUDED.updated_at;
+
+    INSERT INTO public.lead_activity_search_documents (lead_id, activity_document, activity_content, updated_at)
+    SELECT
+        lead.id,
+        setweight(to_tsvector('simple', public.lead_search_text(COALESCE(activities.descriptions, ''))), 'D'),
+        COALESCE(activities.descriptions, ''),
+        now()
+    FROM public.buyer_leads AS lead
+    LEFT JOIN LATERAL (
+        SELECT string_agg(la.description, E'\n' ORDER BY la.created_at DESC) AS descriptions
+        FROM public.lead_activities la
+        WHERE la.lead_id = lead.id
+    ) AS activities ON true
+    WHERE lead.id = target_lead_id
+    ON CONFLICT (lead_id) DO UPDATE SET
+        activity_document = EXCLUDED.activity_document,
+        activity_content = EXCLUDED.activity_content,
+        updated_at = EXCLUDED.updated_at;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_lead_search_document_from_lead()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.refresh_lead_search_document(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_lead_search_document_from_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.refresh_lead_search_document(COALESCE(NEW.lead_id, OLD.lead_id));
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_lead_search_document
+    AFTER INSERT OR UPDATE OF first_name, last_name, email, phone, notes, preferred_areas, property_type
+    ON public.buyer_leads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_lead_search_document_from_lead();
+
+CREATE TRIGGER refresh_lead_search_document
+    AFTER INSERT OR UPDATE OF description OR DELETE
+    ON public.lead_activities
+    FOR EACH ROW
+    EXECUTE FUNCTION public.refresh_lead_search_document_from_activity();
+
+-- Backfill existing leads
+SELECT public.refresh_lead_search_document(id) FROM public.buyer_leads;
+
+-- Leads matching the search, best match first. Returns buyer_leads rows so the client can keep
+-- chaining the usual filters, computed fields and pagination onto the call. Runs as the caller, so
+-- activity documents only join in for leads whose activities the caller can see.
+CREATE OR REPLACE FUNCTION public.search_leads(search TEXT)
+RETURNS SETOF public.buyer_leads
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT lead.*
+    FROM public.buyer_leads AS lead
+    JOIN public.lead_search_documents AS doc ON doc.lead_id = lead.id
+    LEFT JOIN public.lead_activity_search_documents AS activity ON activity.lead_id = lead.id
+    CROSS JOIN LATERAL (SELECT public.lead_search_query(search) AS query) AS q
+    WHERE doc.lead_document @@ q.query
+       OR activity.activity_document @@ q.query
+    ORDER BY
+        ts_rank(doc.lead_document || COALESCE(activity.activity_document, ''::TSVECTOR), q.query) DESC,
+        lead.created_at DESC;
+$$;
+
+-- Highlighted snippets for a page of search results. Matches are wrapped in \x01 ... \x02 rather than
+-- HTML so the client can render highlights without injecting user-entered text as markup.
+CREATE OR REPLACE FUNCTION public.lead_search_snippets(search TEXT, lead_ids UUID[])
+RETURNS TABLE (lead_id UUID, snippet TEXT)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        doc.lead_id,
+        ts_headline(
+            'simple',
+            concat_ws(E'\n', NULLIF(doc.lead_content, ''), NULLIF(activity.activity_content, '')),
+            public.lead_search_query(search),
+            'StartSel=' || chr(1) || ', StopSel=' || chr(2) || ', MaxFragments=2, MaxWords=12, MinWords=4, FragmentDelimiter=" … "'
+        )
+    FROM public.lead_search_documents AS doc
+    LEFT JOIN public.lead_activity_search_documents AS activity ON activity.lead_id = doc.lead_id
+    WHERE doc.lead_id = ANY(lead_ids)
+      AND public.lead_search_query(search) IS NOT NULL;
+$$;
@@ -0,0 +1,88 @@
+-- Soft delete for leads. Deleting moves a lead to the trash instead of removing it, so its activity
+-- history (which cascades on a real DELETE) survives until an admin purges it for good.
+ALTER TABLE public.buyer_leads
+    ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_buyer_leads_deleted_at ON public.buyer_leads (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Restrictive, so it applies on top of every other SELECT policy: trashed leads disappear from the Leads
+-- page, search, analytics and follow-ups, and so do their activities, whose policies look the lead up.
+-- The trash itself is only reachable through the admin functions below.
+CREATE POLICY "Trashed leads are hidden"
+    ON public.buyer_leads AS RESTRICTIVE FOR SELECT
+    USING (deleted_at IS NULL);
+
+-- Keep the definer-side check in line with the policy above
+CREATE OR REPLACE FUNCTION public.can_view_lead(lead public.buyer_leads)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer')
+        AND EXISTS (SELECT 1 FROM public.buyer_leads bl WHERE bl.id = lead.id AND bl.deleted_at IS NULL);
+$$;
+
+-- Trashing, restoring and purging are admin-only, matching who could delete leads before. They run as
+-- definer because the hidden-row policy would otherwise keep the caller from touching trashed rows.
+-- Each returns the ids it actually changed.
+CREATE OR REPLACE FUNCTION public.trash_leads(lead_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.buyer_leads
+    SET deleted_at = now(), deleted_by = auth.uid()
+    WHERE id = ANY(lead_ids)
+      AND deleted_at IS NULL
+      AND public.get_user_role(auth.uid()) = 'admin'
+    RETURNING id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_leads(lead_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.buyer_leads
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE id = ANY(lead_ids)
+      AND deleted_at IS NOT NULL
+      AND public.get_user_role(auth.uid()) = 'admin'
+    RETURNING id;
+$$;
+
+-- Permanently deletes trashed leads, together with their activities
+CREATE OR REPLACE FUNCTION public.purge_leads(lead_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    DELETE FROM public.buyer_leads
+    WHERE id = ANY(lead_ids)
+      AND deleted_at IS NOT NULL
+      AND public.get_user_role(auth.uid()) = 'admin'
+    RETURNING id;
+$$;
+
+-- The trash, most recently deleted first. Empty for anyone but admins.
+CREATE OR REPLACE FUNCTION public.trashed_leads()
+RETURNS SETOF public.buyer_leads
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT *
+    FROM public.buyer_leads
+    WHERE deleted_at IS NOT NULL
+      AND public.get_user_role(auth.uid()) = 'admin'
+    ORDER BY deleted_at DESC;
+$$;
+
+-- Bulk deletes go through trash_leads now
+DROP FUNCTION public.bulk_delete_leads(UUID[]);
@@ -0,0 +1,79 @@
+-- Database-level audit trail of buyer_leads. Written by a trigger, so every change is captured whether it
+-- came from the app, an import, the API or the SQL console. Unlike lead_activities this is not meant for
+-- agents; it is the admin's record of exactly what changed.
+CREATE TABLE public.lead_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- No foreign key: entries must outlive the lead, including a purge from the trash
+    lead_id UUID NOT NULL,
+    lead_name TEXT NOT NULL,
+    operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+    -- NULL when there is no signed-in user, e.g. the service role or the SQL console
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- The database role behind the change: authenticated, service_role, postgres, ...
+    actor_role TEXT NOT NULL,
+    -- { column: { "from": old, "to": new } } for every column that changed
+    changes JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lead_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger and never changed afterwards
+CREATE POLICY "Admins can view the lead audit log"
+    ON public.lead_audit_log FOR SELECT
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE INDEX idx_lead_audit_log_lead_id ON public.lead_audit_log(lead_id, created_at DESC);
+CREATE INDEX idx_lead_audit_log_created_at ON public.lead_audit_log(created_at DESC);
+
+-- Column-level diff of two rows as jsonb. Bookkeeping columns are left out; the log has its own timestamp.
+CREATE OR REPLACE FUNCTION public.lead_audit_diff(old_row JSONB, new_row JSONB)
+RETURNS JSONB
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT COALESCE(
+        jsonb_object_agg(key, jsonb_build_object('from', COALESCE(old_row->key, 'null'), 'to', COALESCE(new_row->key, 'null'))),
+        '{}'::JSONB
+    )
+    FROM (SELECT jsonb_object_keys(COALESCE(old_row, '{}') || COALESCE(new_row, '{}')) AS key) AS keys
+    WHERE key NOT IN ('id', 'created_at', 'updated_at')
+      AND COALESCE(old_row->key, 'null') IS DISTINCT FROM COALESCE(new_row->key, 'null');
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_lead_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    lead public.buyer_leads := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+    changes JSONB := public.lead_audit_diff(
+        CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+        CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+    );
+BEGIN
+    -- Updates that didn't change anything (e.g. saving an untouched form) aren't worth an entry
+    IF TG_OP = 'UPDATE' AND changes = '{}'::JSONB THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.lead_audit_log (lead_id, lead_name, operation, changed_by, actor_role, changes)
+    VALUES (
+        lead.id,
+        concat_ws(' ', lead.first_name, lead.last_name),
+        TG_OP,
+        auth.uid(),
+        COALESCE(auth.jwt()->>'role', session_user),
+        changes
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_buyer_lead_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.buyer_leads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_lead_change();
@@ -0,0 +1,122 @@
+-- Free-form tags for the team's own categories ("relocation", "investor", "cash buyer", ...) that don't
+-- fit lead_source or property_type
+CREATE TABLE public.tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    color TEXT NOT NULL DEFAULT 'gray'
+        CHECK (color IN ('gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- "Investor" and "investor" are the same tag
+CREATE UNIQUE INDEX idx_tags_name ON public.tags (lower(name));
+
+CREATE TABLE public.lead_tags (
+    lead_id UUID REFERENCES public.buyer_leads(id) ON DELETE CASCADE NOT NULL,
+    tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    PRIMARY KEY (lead_id, tag_id)
+);
+
+CREATE INDEX idx_lead_tags_tag_id ON public.lead_tags(tag_id);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lead_tags ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user may edit a lead; mirrors the buyer_leads UPDATE policy
+CREATE OR REPLACE FUNCTION public.can_edit_lead(lead public.buyer_leads)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT public.get_user_role(auth.uid()) = 'admin'
+        OR (public.get_user_role(auth.uid()) IS NOT NULL
+            AND (lead.created_by = auth.uid() OR lead.assigned_to = auth.uid()));
+$$;
+
+-- RLS Policies for tags: anyone who works leads can create one while tagging; renaming and deleting a
+-- tag affects every lead that carries it, so that is left to admins
+CREATE POLICY "Users can view tags"
+    ON public.tags FOR SELECT
+    USING (public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer'));
+
+CREATE POLICY "Agents can create tags"
+    ON public.tags FOR INSERT
+    WITH CHECK (public.get_user_role(auth.uid()) IN ('admin', 'agent'));
+
+CREATE POLICY "Admins can update tags"
+    ON public.tags FOR UPDATE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can delete tags"
+    ON public.tags FOR DELETE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- RLS Policies for lead_tags: visible with the lead, editable by whoever can edit the lead
+CREATE POLICY "Users can view tags of visible leads"
+    ON public.lead_tags FOR SELECT
+    USING (EXISTS (SELECT 1 FROM public.buyer_leads bl WHERE bl.id = lead_tags.lead_id));
+
+CREATE POLICY "Users can tag leads they can edit"
+    ON public.lead_tags FOR INSERT
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.buyer_leads bl
+        WHERE bl.id = lead_tags.lead_id AND public.can_edit_lead(bl)
+    ));
+
+CREATE POLICY "Users can untag leads they can edit"
+    ON public.lead_tags FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM public.buyer_leads bl
+        WHERE bl.id = lead_tags.lead_id AND public.can_edit_lead(bl)
+    ));
+
+-- Computed field: select it with `select('*, tag_ids')` and filter with `tag_ids.ov.{...}`
+CREATE OR REPLACE FUNCTION public.tag_ids(lead public.buyer_leads)
+RETURNS UUID[]
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(array_agg(tag_id ORDER BY created_at), '{}')
+    FROM public.lead_tags
+    WHERE lead_id = lead.id;
+$$;
+
+-- Adds and removes tags across many leads at once. Leads the caller can't edit are skipped rather than
+-- failing the whole request; a row comes back for each lead that was processed, with its tags before and
+-- after so the caller can log what changed.
+CREATE OR REPLACE FUNCTION public.bulk_tag_leads(lead_ids UUID[], add_tag_ids UUID[], remove_tag_ids UUID[])
+RETURNS TABLE (lead_id UUID, old_tag_ids UUID[], new_tag_ids UUID[])
+LANGUAGE SQL
+SET search_path = public
+AS $$
+    WITH editable AS (
+        SELECT lead.id, public.tag_ids(lead) AS tag_ids
+        FROM public.buyer_leads AS lead
+        WHERE lead.id = ANY(lead_ids)
+          AND public.can_edit_lead(lead)
+    ),
+    added AS (
+        INSERT INTO public.lead_tags (lead_id, tag_id)
+        SELECT editable.id, tag_id
+        FROM editable CROSS JOIN unnest(add_tag_ids) AS tag_id
+        ON CONFLICT DO NOTHING
+        RETURNING lead_tags.lead_id
+    ),
+    removed AS (
+        DELETE FROM public.lead_tags
+        WHERE lead_tags.lead_id IN (SELECT id FROM editable)
+          AND lead_tags.tag_id = ANY(remove_tag_ids)
+        RETURNING lead_tags.lead_id
+    )
+    -- The removal only sees tags the lead already had, so a tag in both lists ends up added
+    SELECT
+        editable.id,
+        editable.tag_ids,
+        ARRAY(SELECT tag_id FROM unnest(editable.tag_ids) AS tag_id WHERE tag_id <> ALL(remove_tag_ids))
+            || ARRAY(SELECT DISTINCT tag_id FROM unnest(add_tag_ids) AS tag_id WHERE tag_id <> ALL(editable.tag_ids))
+    FROM editable;
+$$;
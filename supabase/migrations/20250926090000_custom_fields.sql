@@ -0,0 +1,46 @@
+-- Admin-defined fields for whatever else a brokerage tracks on its buyers (pre-approval lender, school
+-- district, pets, ...). Definitions live here; each lead's values live in buyer_leads.custom_values keyed
+-- by the field's key, so adding a field needs no schema change.
+CREATE TABLE public.custom_fields (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Also the CSV column name, so it is fixed once created
+    key TEXT NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+    label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+    field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'boolean')),
+    options TEXT[] NOT NULL DEFAULT '{}',
+    required BOOLEAN NOT NULL DEFAULT false,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (field_type <> 'select' OR cardinality(options) > 0)
+);
+
+CREATE TRIGGER update_custom_fields_updated_at
+    BEFORE UPDATE ON public.custom_fields
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Values are stored as JSON numbers, booleans and strings (dates as YYYY-MM-DD) so they can be filtered
+-- with `custom_values->key` and `custom_values->>key`. Deleting a field leaves its values behind; they are
+-- ignored unless a field with the same key is created again.
+ALTER TABLE public.buyer_leads
+    ADD COLUMN custom_values JSONB NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(custom_values) = 'object');
+
+ALTER TABLE public.custom_fields ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for custom_fields: every form and filter needs the definitions, only admins change them
+CREATE POLICY "Users can view custom fields"
+    ON public.custom_fields FOR SELECT
+    USING (public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer'));
+
+CREATE POLICY "Admins can create custom fields"
+    ON public.custom_fields FOR INSERT
+    WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can update custom fields"
+    ON public.custom_fields FOR UPDATE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can delete custom fields"
+    ON public.custom_fields FOR DELETE
+    USING (public.get_user_role(auth.uid()) = 'admin');
@@ -0,0 +1,114 @@
+-- Admin-managed catalog of the places buyers ask for. Leads keep storing area names in preferred_areas,
+-- but the app only offers catalog names, so "Downtown", "downtown" and "DT" all end up as "Downtown".
+-- Aliases catch the spellings people actually type and are used when matching imports.
+CREATE TABLE public.areas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    kind TEXT NOT NULL DEFAULT 'neighborhood' CHECK (kind IN ('city', 'neighborhood', 'zip_code')),
+    -- Neighborhoods and zip codes sit under a city; filtering on a city includes everything beneath it
+    parent_id UUID REFERENCES public.areas(id) ON DELETE SET NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CHECK (parent_id IS DISTINCT FROM id)
+);
+
+-- Names are what leads store, so they have to be unique regardless of case
+CREATE UNIQUE INDEX idx_areas_name ON public.areas (lower(name));
+CREATE INDEX idx_areas_parent_id ON public.areas(parent_id);
+
+CREATE TRIGGER update_areas_updated_at
+    BEFORE UPDATE ON public.areas
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.areas ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for areas: everyone picks from the catalog, only admins maintain it
+CREATE POLICY "Users can view areas"
+    ON public.areas FOR SELECT
+    USING (public.get_user_role(auth.uid()) IN ('admin', 'agent', 'viewer'));
+
+CREATE POLICY "Admins can create areas"
+    ON public.areas FOR INSERT
+    WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can update areas"
+    ON public.areas FOR UPDATE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Admins can delete areas"
+    ON public.areas FOR DELETE
+    USING (public.get_user_role(auth.uid()) = 'admin');
+
+-- Swaps one area name for another in a preferred_areas array, keeping the original order and dropping
+-- the duplicate when the lead already had the new name
+CREATE OR REPLACE FUNCTION public.replace_lead_area(lead_areas TEXT[], from_name TEXT, to_name TEXT)
+RETURNS TEXT[]
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT ARRAY(
+        SELECT area
+        FROM unnest(array_replace(lead_areas, from_name, to_name)) WITH ORDINALITY AS t(area, position)
+        GROUP BY area
+        ORDER BY min(position)
+    );
+$$;
+
+-- Renaming an area renames it on every lead, trashed ones included. Runs as definer because the
+-- hidden-row policy would otherwise keep the update away from trashed leads.
+CREATE OR REPLACE FUNCTION public.rename_lead_areas()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.buyer_leads
+    SET preferred_areas = public.replace_lead_area(preferred_areas, OLD.name, NEW.name)
+    WHERE OLD.name = ANY(preferred_areas);
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_area_on_leads
+    AFTER UPDATE OF name ON public.areas
+    FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION public.rename_lead_areas();
+
+-- Area names on leads that aren't in the catalog, with how many leads use each: older free-text entries
+-- and import values that couldn't be matched. Empty for anyone but admins.
+CREATE OR REPLACE FUNCTION public.uncatalogued_lead_areas()
+RETURNS TABLE (name TEXT, lead_count BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT area, count(*)
+    FROM public.buyer_leads, unnest(preferred_areas) AS area
+    WHERE public.get_user_role(auth.uid()) = 'admin'
+      AND NOT EXISTS (SELECT 1 FROM public.areas WHERE areas.name = area)
+    GROUP BY area
+    ORDER BY count(*) DESC, area;
+$$;
+
+-- Replaces an uncatalogued name with a catalog area on every lead that has it. Admin-only; returns the
+-- ids of the leads it changed.
+CREATE OR REPLACE FUNCTION public.remap_lead_area(from_name TEXT, to_area_id UUID)
+RETURNS SETOF UUID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.buyer_leads AS lead
+    SET preferred_areas = public.replace_lead_area(lead.preferred_areas, from_name, target.name)
+    FROM public.areas AS target
+    WHERE target.id = to_area_id
+      AND from_name = ANY(lead.preferred_areas)
+      AND public.get_user_role(auth.uid()) = 'admin'
+    RETURNING lead.id;
+$$;
@@ -0,0 +1,41 @@
+-- property_type becomes a fixed list instead of free text. Legacy spellings are mapped onto the list;
+-- anything unrecognised becomes 'other' and the original text is kept at the end of the lead's notes.
+-- The client maps CSV values with the same aliases (src/lib/propertyTypes.ts).
+CREATE OR REPLACE FUNCTION public.normalize_property_type(value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN key = '' THEN NULL
+        WHEN key IN ('singlefamily', 'singlefamilyhome', 'singlefamilyhouse', 'sfh', 'house', 'detached', 'detachedhouse') THEN 'single_family'
+        WHEN key IN ('condo', 'condominium', 'apartment', 'flat', 'apt') THEN 'condo'
+        WHEN key IN ('townhouse', 'townhome', 'rowhouse', 'attached') THEN 'townhouse'
+        WHEN key IN ('multifamily', 'multifamilyhome', 'duplex', 'triplex', 'fourplex', 'quadplex', 'mfh') THEN 'multi_family'
+        WHEN key IN ('land', 'lot', 'vacantland', 'acreage') THEN 'land'
+        WHEN key IN ('mobilehome', 'manufacturedhome', 'manufactured', 'mobile') THEN 'mobile_home'
+        WHEN key = 'other' THEN 'other'
+    END
+    FROM (SELECT regexp_replace(lower(COALESCE(value, '')), '[^a-z0-9]', '', 'g') AS key) AS normalized;
+$$;
+
+UPDATE public.buyer_leads
+SET notes = concat_ws(E'\n\n', NULLIF(notes, ''), 'Property type (before normalization): ' || property_type),
+    property_type = 'other'
+WHERE NULLIF(trim(property_type), '') IS NOT NULL
+  AND public.normalize_property_type(property_type) IS NULL;
+
+UPDATE public.buyer_leads
+SET property_type = public.normalize_property_type(property_type)
+WHERE property_type IS DISTINCT FROM public.normalize_property_type(property_type);
+
+ALTER TABLE public.buyer_leads
+    ADD CONSTRAINT buyer_leads_property_type_check
+    CHECK (property_type IN ('single_family', 'condo', 'townhouse', 'multi_family', 'land', 'mobile_home', 'other'));
+
+-- Preferences that only make sense for some property types, like HOA tolerance for condos or lot size
+-- for land. Which attributes each type has is defined in the app; keys are shared where the meaning is
+-- the same (max_hoa_fee applies to condos and townhouses) so one filter covers both.
+ALTER TABLE public.buyer_leads
+    ADD COLUMN property_details JSONB NOT NULL DEFAULT '{}'::JSONB
+    CHECK (jsonb_typeof(property_details) = 'object');
@@ -0,0 +1,17 @@
+-- Phone numbers are stored in E.164 (+15552010123) so the same number always reads the same way. The app
+-- parses input against each user's default country; existing free-text numbers are converted here where
+-- that can be done safely (international format, or North American numbers, the app's default country).
+-- Anything else is left as entered and shown as-is until someone edits the lead, which has to supply a valid
+-- number. There's deliberately no CHECK constraint: it would also block unrelated updates (bulk status
+-- changes, trash, area renames) on leads that still carry an old number.
+UPDATE public.buyer_leads
+SET phone = CASE
+        WHEN digits = '' THEN NULL
+        WHEN trim(phone) LIKE '+%' AND digits ~ '^[1-9][0-9]{7,14}$' THEN '+' || digits
+        WHEN digits ~ '^1[2-9][0-9]{2}[2-9][0-9]{6}$' THEN '+' || digits
+        WHEN digits ~ '^[2-9][0-9]{2}[2-9][0-9]{6}$' THEN '+1' || digits
+        ELSE phone
+    END
+FROM (SELECT id AS lead_id, regexp_replace(COALESCE(phone, ''), '\D', '', 'g') AS digits FROM public.buyer_leads) AS parsed
+WHERE parsed.lead_id = buyer_leads.id
+  AND buyer_leads.phone IS NOT NULL;
@@ -0,0 +1,100 @@
+-- Problems spotted in a lead's contact details, such as an email domain that looks like a typo or a
+-- disposable inbox. The checks run in the app (src/lib/emailQuality.ts) whenever a lead is saved or
+-- imported; the leads already in the table are checked once below.
+ALTER TABLE public.buyer_leads
+    ADD COLUMN data_quality_flags TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (data_quality_flags <@ ARRAY['email_typo', 'email_disposable', 'email_role']);
+
+CREATE INDEX idx_buyer_leads_data_quality_flags ON public.buyer_leads USING GIN (data_quality_flags);
+
+-- One-off backfill with the same checks as src/lib/emailQuality.ts, whose domain and mailbox lists are
+-- copied here as they stood when this ran. Only flagged leads are touched, and updated_at is left alone
+-- since nobody edited them; the audit log still records the change.
+CREATE FUNCTION pg_temp.typo_distance(a TEXT, b TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    d INTEGER[][] := array_fill(0, ARRAY[length(a) + 1, length(b) + 1]);
+    cost INTEGER;
+BEGIN
+    FOR i IN 0..length(a) LOOP d[i + 1][1] := i; END LOOP;
+    FOR j IN 0..length(b) LOOP d[1][j + 1] := j; END LOOP;
+
+    FOR i IN 1..length(a) LOOP
+        FOR j IN 1..length(b) LOOP
+            cost := CASE WHEN substr(a, i, 1) = substr(b, j, 1) THEN 0 ELSE 1 END;
+            d[i + 1][j + 1] := least(d[i][j + 1] + 1, d[i + 1][j] + 1, d[i][j] + cost);
+            -- Swapped neighbours count as one edit
+            IF i > 1 AND j > 1 AND substr(a, i, 1) = substr(b, j - 1, 1) AND substr(a, i - 1, 1) = substr(b, j, 1) THEN
+                d[i + 1][j + 1] := least(d[i + 1][j + 1], d[i - 1][j - 1] + 1);
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN d[length(a) + 1][length(b) + 1];
+END;
+$$;
+
+CREATE FUNCTION pg_temp.email_quality_flags(email TEXT)
+RETURNS TEXT[]
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+    SELECT array_remove(ARRAY[
+        CASE WHEN parts.domain <> ALL(lists.common) AND (
+            SELECT min(pg_temp.typo_distance(parts.domain, candidate)) FROM unnest(lists.common) AS candidate
+        ) <= CASE WHEN length(parts.domain) > 9 THEN 2 ELSE 1 END THEN 'email_typo' END,
+        CASE WHEN EXISTS (
+            SELECT 1 FROM unnest(lists.disposable) AS disposable
+            WHERE parts.domain = disposable OR parts.domain LIKE '%.' || disposable
+        ) THEN 'email_disposable' END,
+        CASE WHEN split_part(parts.local_part, '+', 1) = ANY(lists.roles) THEN 'email_role' END
+    ], NULL)
+    FROM (
+        SELECT match[1] AS local_part, match[2] AS domain
+        FROM regexp_match(lower(trim(email)), '^(.+)@([^@]+)$') AS match
+    ) AS parts
+    CROSS JOIN (
+        SELECT
+            ARRAY[
+            'gmail.com', 'googlemail.com', 'yahoo.com', 'yahoo.co.uk', 'ymail.com', 'hotmail.com',
+            'hotmail.co.uk', 'outlook.com', 'live.com', 'msn.com', 'icloud.com', 'me.com',
+            'mac.com', 'aol.com', 'protonmail.com', 'proton.me', 'gmx.com', 'mail.com',
+            'zoho.com', 'comcast.net', 'verizon.net', 'att.net', 'sbcglobal.net', 'cox.net'
+            ] AS common,
+            ARRAY[
+            '10minutemail.com', '10minutemail.net', '20minutemail.com', '33mail.com',
+            'burnermail.io', 'discard.email', 'dispostable.com', 'dropmail.me',
+            'emailfake.com', 'emailondeck.com', 'emltmp.com', 'fakeinbox.com',
+            'fakemail.net', 'getairmail.com', 'getnada.com', 'grr.la',
+            'guerrillamail.biz', 'guerrillamail.com', 'guerrillamail.de', 'guerrillamail.net',
+            'guerrillamail.org', 'guerrillamailblock.com', 'inboxkitten.com', 'jetable.org',
+            'mail.tm', 'mailcatch.com', 'maildrop.cc', 'mailforspam.com',
+            'mailinator.com', 'mailinator.net', 'mailinator2.com', 'mailnesia.com',
+            'mailpoof.com', 'mailsac.com', 'mintemail.com', 'minutemail.com',
+            'moakt.com', 'mohmal.com', 'mytemp.email', 'nada.email',
+            'pokemail.net', 'sharklasers.com', 'spam4.me', 'spambox.us',
+            'spamgourmet.com', 'temp-mail.io', 'temp-mail.org', 'tempail.com',
+            'tempinbox.com', 'tempmail.com', 'tempmail.net', 'tempmailo.com',
+            'tempr.email', 'throwam.com', 'throwawaymail.com', 'tmails.net',
+            'tmpmail.net', 'tmpmail.org', 'trashmail.com', 'trashmail.de',
+            'trashmail.net', 'yopmail.com', 'yopmail.fr', 'yopmail.net'
+            ] AS disposable,
+            ARRAY[
+            'accounts', 'admin', 'billing', 'careers', 'contact', 'enquiries',
+            'hello', 'help', 'hr', 'info', 'inquiries', 'jobs',
+            'marketing', 'noreply', 'no-reply', 'office', 'postmaster', 'sales',
+            'service', 'support', 'team', 'webmaster'
+            ] AS roles
+    ) AS lists;
+$$;
+
+ALTER TABLE public.buyer_leads DISABLE TRIGGER update_buyer_leads_updated_at;
+
+UPDATE public.buyer_leads
+SET data_quality_flags = pg_temp.email_quality_flags(email)
+WHERE cardinality(pg_temp.email_quality_flags(email)) > 0;
+
+ALTER TABLE public.buyer_leads ENABLE TRIGGER update_buyer_leads_updated_at;
@@ -0,0 +1,71 @@
+-- Duplicate detection compares emails in a normalised form: case and +tags don't make a different
+-- person, and Gmail ignores dots in the mailbox name (googlemail.com is the same service).
+CREATE OR REPLACE FUNCTION public.normalize_email(value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN parts.domain IN ('gmail.com', 'googlemail.com') THEN replace(parts.mailbox, '.', '') || '@gmail.com'
+        ELSE parts.mailbox || '@' || parts.domain
+    END
+    FROM (
+        SELECT
+            split_part(split_part(lower(trim(value)), '@', 1), '+', 1) AS mailbox,
+            split_part(lower(trim(value)), '@', 2) AS domain
+    ) AS parts;
+$$;
+
+-- Last ten digits of a phone number, so E.164 numbers line up with free-text ones saved before phones
+-- were normalised. NULL for anything too short to identify a line.
+CREATE OR REPLACE FUNCTION public.phone_key(value TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE WHEN length(digits) >= 7 THEN right(digits, 10) END
+    FROM (SELECT regexp_replace(COALESCE(value, ''), '\D', '', 'g') AS digits) AS phone;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX idx_buyer_leads_email_key ON public.buyer_leads (public.normalize_email(email));
+CREATE INDEX idx_buyer_leads_phone_key ON public.buyer_leads (public.phone_key(phone));
+CREATE INDEX idx_buyer_leads_first_name_trgm ON public.buyer_leads USING GIN (lower(first_name) extensions.gin_trgm_ops);
+CREATE INDEX idx_buyer_leads_last_name_trgm ON public.buyer_leads USING GIN (lower(last_name) extensions.gin_trgm_ops);
+
+-- Narrows the table down to the leads that could duplicate each of the given ones: same normalised email,
+-- same phone, or a surname close enough by trigrams to one of the names (either way round, so names
+-- entered back to front are found). The app does the actual scoring on these. `leads` is an array of
+-- {first_name, last_name, email, phone, exclude_id}; input_index points back into it. Runs as the caller,
+-- so only leads they can see come back.
+CREATE OR REPLACE FUNCTION public.find_duplicate_candidates(leads JSONB)
+RETURNS TABLE (input_index INTEGER, id UUID, first_name TEXT, last_name TEXT, email TEXT, phone TEXT)
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT (input.position - 1)::INTEGER, candidate.id, candidate.first_name, candidate.last_name, candidate.email, candidate.phone
+    FROM jsonb_array_elements(leads) WITH ORDINALITY AS input(lead, position)
+    CROSS JOIN LATERAL (
+        SELECT bl.id, bl.first_name, bl.last_name, bl.email, bl.phone
+        FROM public.buyer_leads AS bl
+        WHERE (
+            public.normalize_email(bl.email) = public.normalize_email(input.lead->>'email')
+            OR public.phone_key(bl.phone) = public.phone_key(input.lead->>'phone')
+            OR lower(bl.last_name) % lower(input.lead->>'last_name')
+            OR lower(bl.first_name) % lower(input.lead->>'last_name')
+        )
+          AND bl.id IS DISTINCT FROM NULLIF(input.lead->>'exclude_id', '')::UUID
+        ORDER BY
+            public.normalize_email(bl.email) = public.normalize_email(input.lead->>'email') DESC,
+            COALESCE(public.phone_key(bl.phone) = public.phone_key(input.lead->>'phone'), false) DESC,
+            similarity(
+                lower(bl.first_name || ' ' || bl.last_name),
+                lower((input.lead->>'first_name') || ' ' || (input.lead->>'last_name'))
+            ) DESC
+        LIMIT 10
+    ) AS candidate;
+$$;